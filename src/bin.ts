@@ -0,0 +1,17 @@
+#!/usr/bin/env node
+import { run } from './cli.js'
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks).toString('utf-8')
+}
+
+process.exitCode = await run(process.argv.slice(2), {
+  cwd: process.cwd(),
+  readStdin,
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+})
@@ -0,0 +1,212 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, expect, test } from 'vitest'
+import dedent from 'dedent'
+
+import { run } from './cli.ts'
+
+let dir: string
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'fabulous-json-'))
+})
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+async function runCLI(args: string[], stdin = '', cwd = dir) {
+  let stdout = ''
+  let stderr = ''
+  const code = await run(args, {
+    cwd,
+    readStdin: async () => stdin,
+    stdout: text => { stdout += text },
+    stderr: text => { stderr += text },
+  })
+  return { code, stdout, stderr }
+}
+
+test('formats stdin', async () => {
+  const { code, stdout } = await runCLI(['--no-config'], '{"a":[1,2.50],"b":{"c":null}}')
+  expect(code).toBe(0)
+  expect(stdout).toBe(dedent`
+    {
+      "a": [ 1, 2.50 ],
+      "b": { "c": null }
+    }
+  ` + '\n')
+})
+
+test('options from flags', async () => {
+  const input = '{"a":{"x":1,"y":2},"b":{"x":3,"y":40}}'
+  expect((await runCLI(['--no-config', '--indent', '4', '--max-line-length', '30'], input)).stdout).toBe(dedent`
+    {
+        "a": { "x": 1, "y":  2 },
+        "b": { "x": 3, "y": 40 }
+    }
+  ` + '\n')
+  expect((await runCLI(['--no-config', '--no-tables', '--indent', '4', '--max-line-length', '30'], input)).stdout).toBe(dedent`
+    {
+        "a": { "x": 1, "y": 2 },
+        "b": { "x": 3, "y": 40 }
+    }
+  ` + '\n')
+  expect((await runCLI(['--no-config', '--max-line-length=10'], input)).stdout).toBe(dedent`
+    {
+      "a": {
+        "x": 1,
+        "y": 2
+      },
+      "b": {
+        "x": 3,
+        "y": 40
+      }
+    }
+  ` + '\n')
+})
+
+test('invalid arguments', async () => {
+  expect((await runCLI(['--max-line-length', 'abc'])).code).toBe(2)
+  expect((await runCLI(['--unknown'])).code).toBe(2)
+  expect((await runCLI(['--tables=maybe'])).code).toBe(2)
+  expect((await runCLI(['--write'])).code).toBe(2)
+  expect(await runCLI(['--write', '-'])).toMatchObject({ code: 2, stderr: expect.stringContaining("--write can't be used with stdin") })
+  expect(await runCLI(['--write', '--check', 'data.json'])).toMatchObject({ code: 2, stderr: expect.stringContaining("--write and --check can't be used together") })
+  expect(await runCLI(['--width-mode=wide'])).toMatchObject({
+    code: 2,
+    stderr: expect.stringContaining("--width-mode must be one of utf16, codepoints, display, got 'wide'")
+  })
+  for (const args of [
+    [ '--escape', 'none' ],
+    [ '--decimal-alignment', 'left' ],
+    [ '--table-key-order', 'sorted' ],
+    [ '--syntax', 'yaml' ],
+    [ '--quote-style', 'backtick' ],
+    [ '--non-finite', 'never' ],
+    [ '--max-fraction-digits', 'two' ],
+  ]) {
+    expect((await runCLI(args)).code).toBe(2)
+  }
+})
+
+test('--write and --check', async () => {
+  const file = join(dir, 'data.json')
+  await writeFile(file, '[1,2,3]')
+  expect(await runCLI(['--check', file])).toMatchObject({ code: 1, stderr: `${file} is not formatted\n` })
+  expect((await runCLI(['--write', file])).code).toBe(0)
+  expect(await readFile(file, 'utf-8')).toBe('[ 1, 2, 3 ]\n')
+  expect((await runCLI(['--check', file])).code).toBe(0)
+  await writeFile(file, '{\r\n  "a": { "b": [ 1, 2 ] },\r\n  "c": { "d": null }\r\n}\r\n')
+  expect((await runCLI(['--check', file])).code).toBe(0)
+  await writeFile(file, '{"a":{"b":[1,2]},\r\n"c":{"d":null}}')
+  expect((await runCLI(['--write', file])).code).toBe(0)
+  expect(await readFile(file, 'utf-8')).toBe('{\r\n  "a": { "b": [ 1, 2 ] },\r\n  "c": { "d": null }\r\n}\r\n')
+})
+
+test('syntax errors', async () => {
+  const { code, stderr } = await runCLI([], '{"a":}')
+  expect(code).toBe(2)
+  expect(stderr).toBe("<stdin>: Unexpected token '}' at line 1, column 6\n")
+})
+
+test('config files', async () => {
+  const input = '[1,2,3]'
+  await writeFile(join(dir, 'package.json'), JSON.stringify({ 'fabulous-json': { indent: 4, maxArrayItems: 2 } }))
+  expect((await runCLI(['--compact-long-arrays=false'], input)).stdout).toBe('[\n    1,\n    2,\n    3\n]\n')
+  await writeFile(join(dir, '.fabulousjsonrc.json'), JSON.stringify({ maxArrayItems: 2, compactLongArrays: false }))
+  expect((await runCLI([], input)).stdout).toBe('[\n  1,\n  2,\n  3\n]\n')
+  expect((await runCLI(['--max-array-items', '3'], input)).stdout).toBe('[ 1, 2, 3 ]\n')
+})
+
+test('invalid config files', async () => {
+  const rc = join(dir, '.fabulousjsonrc.json')
+  await writeFile(rc, JSON.stringify({ widthMode: 'bogus' }))
+  expect(await runCLI([], '[1]')).toMatchObject({
+    code: 2,
+    stderr: `Invalid config in ${rc}: 'widthMode' must be one of utf16, codepoints, display, got "bogus"\n`
+  })
+  await writeFile(rc, JSON.stringify({ maxLineLength: 'x' }))
+  expect(await runCLI([], '[1]')).toMatchObject({ code: 2, stderr: `Invalid config in ${rc}: 'maxLineLength' must be a number, got "x"\n` })
+  await writeFile(rc, JSON.stringify({ tables: 'no' }))
+  expect(await runCLI([], '[1]')).toMatchObject({ code: 2, stderr: `Invalid config in ${rc}: 'tables' must be true or false, got "no"\n` })
+  await writeFile(rc, JSON.stringify({ numbers: { maxFractionDigits: null } }))
+  expect(await runCLI([], '[1]')).toMatchObject({ code: 2, stderr: `Invalid config in ${rc}: 'numbers.maxFractionDigits' must be a number, got null\n` })
+  await writeFile(rc, JSON.stringify({ indent: true }))
+  expect(await runCLI(['--config', rc], '[1]')).toMatchObject({ code: 2, stderr: `Invalid config in ${rc}: 'indent' must be a number or a string, got true\n` })
+  await writeFile(rc, '[]')
+  expect(await runCLI([], '[1]')).toMatchObject({ code: 2, stderr: `Invalid config in ${rc}: expected an object, got []\n` })
+  await rm(join(dir, '.fabulousjsonrc.json'))
+  await writeFile(join(dir, 'package.json'), '{"name":')
+  await mkdir(join(dir, 'sub'))
+  expect(await runCLI([], '[1]', join(dir, 'sub'))).toMatchObject({
+    code: 2,
+    stderr: expect.stringContaining(`Failed to read config file ${join(dir, 'package.json')}`)
+  })
+})
+
+test('jsonc files', async () => {
+  const file = join(dir, 'config.jsonc')
+  await writeFile(file, '{"a":1,// Comment\n}')
+  expect((await runCLI(['--no-config', file])).stdout).toBe(dedent`
+    {
+      "a": 1 // Comment
+    }
+  ` + '\n')
+})
+
+test('--sort-keys', async () => {
+  expect((await runCLI(['--no-config', '--sort-keys'], '{"b":1,"a":2}')).stdout).toBe('{ "a": 2, "b": 1 }\n')
+})
+
+test('choice flags', async () => {
+  expect((await runCLI(['--no-config', '--escape', 'ascii'], '["é</script>"]')).stdout).toBe('[ "\\u00e9</script>" ]\n')
+  expect((await runCLI(['--no-config', '--notation', 'exponent'], '[1500, 0.25]')).stdout).toBe('[ 1.5e+3, 2.5e-1 ]\n')
+  const input = '{"a":"text","b-c":["x","y"],"d":{"e":"long string value that does not fit"}}'
+  expect((await runCLI(['--no-config', '--syntax', 'json5', '--quote-style', 'single', '--max-line-length', '30'], input)).stdout).toBe(dedent`
+    {
+      a: 'text',
+      'b-c': [ 'x', 'y' ],
+      d: {
+        e: 'long string value that does not fit',
+      },
+    }
+  ` + '\n')
+})
+
+test('flags for the numbers options', async () => {
+  const input = '[1.23456, -0.001, 0.5]'
+  expect((await runCLI(['--no-config', '--max-fraction-digits', '2', '--negative-zero', 'keep'], input)).stdout).toBe('[ 1.23, -0, 0.5 ]\n')
+  expect((await runCLI(['--no-config', '--max-significant-digits', '1'], input)).stdout).toBe('[ 1, -0.001, 0.5 ]\n')
+  // Flags only replace the numbers options they are for
+  await writeFile(join(dir, '.fabulousjsonrc.json'), JSON.stringify({ numbers: { negativeZero: 'keep', maxFractionDigits: 4 } }))
+  expect((await runCLI(['--max-fraction-digits', '2'], input)).stdout).toBe('[ 1.23, -0, 0.5 ]\n')
+})
+
+test('boolean flags', async () => {
+  const input = '[{"name":"first","count":1,"label":"one"},{"name":"second","count":22,"label":"two"}]'
+  expect((await runCLI(['--no-config', '--table-wrap', '--max-line-length', '36'], input)).stdout).toBe(dedent`
+    [
+      { "name": "first",  "count":  1,
+          "label": "one" },
+      { "name": "second", "count": 22,
+          "label": "two" }
+    ]
+  ` + '\n')
+})
+
+test('JSON5 files', async () => {
+  const file = join(dir, 'data.json5')
+  await writeFile(file, "{a:1,'b-c':[.5,0xff,Infinity],// Comment\n}")
+  expect((await runCLI(['--no-config', '--syntax', 'json5', '--write', file])).code).toBe(0)
+  expect(await readFile(file, 'utf-8')).toBe(dedent`
+    {
+      a: 1,
+      "b-c": [ 0.5, 255, Infinity ], // Comment
+    }
+  ` + '\n')
+  expect((await runCLI(['--no-config', '--syntax', 'json5', '--check', file])).code).toBe(0)
+  // .json5 files are read as JSON5 without --syntax, but written as JSON
+  expect(await runCLI(['--no-config', '--check', file])).toMatchObject({ code: 1, stderr: `${file} is not formatted\n` })
+})
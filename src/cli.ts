@@ -0,0 +1,397 @@
+import { readFile, writeFile } from 'node:fs/promises'
+import { dirname, join, resolve } from 'node:path'
+
+import { format, type FormatOptions, type NumberOptions } from './index.js'
+
+export type CLIOptions = Omit<FormatOptions, 'replace' | 'allowInline' | 'allowTable'>
+
+export type CLIIO = {
+  cwd: string
+  readStdin: () => Promise<string>
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+}
+
+/**
+ * The names of the options that can be set to values of type `T`.
+ */
+type OptionName<T, Options = CLIOptions> = { [K in keyof Options]-?: T extends Options[K] ? K : never }[keyof Options]
+
+const numberOptions: Record<string, OptionName<number>> = {
+  'max-line-length': 'maxLineLength',
+  'max-array-items': 'maxArrayItems',
+  'max-object-properties': 'maxObjectProperties',
+  'max-array-item-length': 'maxArrayItemLength',
+  'table-min-shared-keys': 'tableMinSharedKeys',
+}
+
+/**
+ * Flags for the {@link NumberOptions numbers} options, which are named
+ * without `numbers` in front.
+ */
+const numberFormatOptions: Record<string, OptionName<number, NumberOptions>> = {
+  'max-fraction-digits': 'maxFractionDigits',
+  'max-significant-digits': 'maxSignificantDigits',
+}
+
+const booleanOptions: Record<string, OptionName<boolean>> = {
+  'jsonc': 'jsonc',
+  'json5': 'json5',
+  'compact-long-arrays': 'compactLongArrays',
+  'tables': 'tables',
+  'table-arrays': 'tableArrays',
+  'table-objects': 'tableObjects',
+  'table-pad-end-of-rows': 'tablePadEndOfRows',
+  'table-decimal-alignment': 'tableDecimalAlignment',
+  'table-wrap': 'tableWrap',
+  'sort-keys': 'sortKeys',
+}
+
+/**
+ * An option that can be set to one of a few strings.
+ */
+type ChoiceOption<Options> = {
+  key: keyof Options & string
+  values: readonly string[]
+  set: (options: Options, value: string) => void
+}
+
+function choiceOption<Options, K extends keyof Options & string>(key: K, values: readonly Extract<Options[K], string>[]): ChoiceOption<Options> {
+  return {
+    key,
+    values,
+    set: (options, value) => {
+      const choice = values.find(v => v === value)
+      if (choice !== undefined) options[key] = choice
+    }
+  }
+}
+
+const choiceOptions: Record<string, ChoiceOption<CLIOptions>> = {
+  'width-mode': choiceOption('widthMode', [ 'utf16', 'codepoints', 'display' ]),
+  'escape': choiceOption('escape', [ 'json', 'ascii', 'html' ]),
+  'decimal-alignment': choiceOption('decimalAlignment', [ 'column', 'array', 'none' ]),
+  'table-key-order': choiceOption('tableKeyOrder', [ 'strict', 'first', 'union-sorted' ]),
+  'syntax': choiceOption('syntax', [ 'json', 'json5' ]),
+  'quote-style': choiceOption('quoteStyle', [ 'double', 'single', 'auto' ]),
+}
+
+const numberFormatChoiceOptions: Record<string, ChoiceOption<NumberOptions>> = {
+  'notation': choiceOption('notation', [ 'auto', 'fixed', 'exponent', 'hex' ]),
+  'non-finite': choiceOption('nonFinite', [ 'null', 'string', 'literal', 'throw' ]),
+  'negative-zero': choiceOption('negativeZero', [ 'zero', 'keep', 'string', 'throw' ]),
+}
+
+const configFileNames = [
+  '.fabulousjsonrc.json',
+  '.fabulousjsonrc',
+]
+
+const usage = `Usage: fabulous-json [options] [files...]
+
+Formats JSON files, or stdin if no files are given, and prints the result.
+
+Options:
+  -w, --write                      Rewrite the files in place
+  -c, --check                      Exit with code 1 if any file isn't formatted
+      --config <path>              Use this config file instead of searching for one
+      --no-config                  Don't search for a config file
+      --indent <n|string|tab>      Indent with n spaces or the given string
+      --prefix-indent <n|string>   Add this to the start of indented lines
+      --max-line-length <n>
+      --max-array-items <n>
+      --max-object-properties <n>
+      --max-array-item-length <n>
+      --table-min-shared-keys <n>
+      --[no-]jsonc                 Allow comments and trailing commas
+      --[no-]json5                 Allow JSON5, like unquoted keys and single quotes
+      --[no-]compact-long-arrays
+      --[no-]tables
+      --[no-]table-arrays
+      --[no-]table-objects
+      --[no-]table-pad-end-of-rows
+      --[no-]table-decimal-alignment
+      --[no-]table-wrap            Split wide table rows across lines
+      --[no-]sort-keys             Sort the keys of objects
+      --width-mode <utf16|codepoints|display>
+                                   How the width of text is measured
+      --escape <json|ascii|html>   Which characters in strings are escaped
+      --decimal-alignment <column|array|none>
+                                   How numbers in long arrays are aligned
+      --table-key-order <strict|first|union-sorted>
+                                   Columns of rows with keys in different orders
+      --syntax <json|json5>        Write JSON5 with unquoted keys and trailing commas
+      --quote-style <double|single|auto>
+                                   Quotes for strings in JSON5 output
+      --max-fraction-digits <n>    Round numbers to this many decimals
+      --max-significant-digits <n> Round numbers to this many significant digits
+      --notation <auto|fixed|exponent|hex>
+      --non-finite <null|string|literal|throw>
+      --negative-zero <zero|keep|string|throw>
+  -h, --help                       Show this message
+
+Config is read from .fabulousjsonrc.json, .fabulousjsonrc, or the
+"fabulous-json" key in package.json, in the current directory or the closest
+parent directory that has one of them. Command line options take precedence.
+`
+
+class UsageError extends Error {}
+
+function parseIndent(value: string): string | number {
+  if (value === 'tab') return '\t'
+  return /^\d+$/.test(value) ? Number(value) : value
+}
+
+function parseArgs(args: string[]) {
+  const options: CLIOptions = {}
+  const numbers: NumberOptions = {}
+  const files: string[] = []
+  let write = false
+  let check = false
+  let help = false
+  let config: string | false | undefined
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--') {
+      files.push(...args.slice(i + 1))
+      break
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      files.push(arg)
+      continue
+    }
+
+    const [name, value] = arg.split(/=(.*)/s, 2) as [string, string | undefined]
+    const takeValue = () => {
+      if (value !== undefined) return value
+      if (i + 1 >= args.length) throw new UsageError(`Missing value for ${name}`)
+      return args[++i]
+    }
+    const takeNumber = () => {
+      const v = takeValue()
+      const n = Number(v)
+      if (v.trim() === '' || Number.isNaN(n)) {
+        throw new UsageError(`${name} must be a number, got '${v}'`)
+      }
+      return n
+    }
+    const takeChoice = <Options>({ values, set }: ChoiceOption<Options>, target: Options) => {
+      const v = takeValue()
+      if (!values.includes(v)) {
+        throw new UsageError(`${name} must be one of ${values.join(', ')}, got '${v}'`)
+      }
+      set(target, v)
+    }
+
+    if (name === '-w' || name === '--write') write = true
+    else if (name === '-c' || name === '--check') check = true
+    else if (name === '-h' || name === '--help') help = true
+    else if (name === '--config') config = takeValue()
+    else if (name === '--no-config') config = false
+    else if (name === '--indent') options.indent = parseIndent(takeValue())
+    else if (name === '--prefix-indent') options.prefixIndent = parseIndent(takeValue())
+    else if (name.slice(2) in numberOptions) options[numberOptions[name.slice(2)]] = takeNumber()
+    else if (name.slice(2) in numberFormatOptions) numbers[numberFormatOptions[name.slice(2)]] = takeNumber()
+    else if (name.slice(2) in choiceOptions) takeChoice(choiceOptions[name.slice(2)], options)
+    else if (name.slice(2) in numberFormatChoiceOptions) takeChoice(numberFormatChoiceOptions[name.slice(2)], numbers)
+    else if (name.slice(2) in booleanOptions) {
+      if (value !== undefined && value !== 'true' && value !== 'false') {
+        throw new UsageError(`${name} must be true or false, got '${value}'`)
+      }
+      options[booleanOptions[name.slice(2)]] = value !== 'false'
+    }
+    else if (name.startsWith('--no-') && name.slice(5) in booleanOptions) {
+      options[booleanOptions[name.slice(5)]] = false
+    }
+    else throw new UsageError(`Unknown option ${name}`)
+  }
+
+  if (Object.keys(numbers).length > 0) options.numbers = numbers
+
+  if (write && files.length === 0) {
+    throw new UsageError('--write requires at least one file')
+  }
+  if (write && files.includes('-')) {
+    throw new UsageError("--write can't be used with stdin")
+  }
+  if (write && check) {
+    throw new UsageError("--write and --check can't be used together")
+  }
+
+  return { options, files, write, check, help, config }
+}
+
+async function readJSONFile(path: string, optional = true): Promise<unknown> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8'))
+  } catch (e) {
+    if (optional && e.code === 'ENOENT') return undefined
+    throw new Error(`Failed to read config file ${path}: ${e.message}`)
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function configError(path: string, key: string, expected: string, value: unknown): Error {
+  return new Error(`Invalid config in ${path}: '${key}' must be ${expected}, got ${JSON.stringify(value)}`)
+}
+
+/**
+ * Checks the values in a config with the same rules as the flags that set
+ * them.
+ */
+function validateConfig(config: unknown, path: string): CLIOptions {
+  if (!isObject(config)) {
+    throw new Error(`Invalid config in ${path}: expected an object, got ${JSON.stringify(config)}`)
+  }
+  checkConfigValues(config, path, '', Object.values(numberOptions), Object.values(booleanOptions), Object.values(choiceOptions))
+  for (const key of [ 'indent', 'prefixIndent' ]) {
+    if (key in config && typeof config[key] !== 'number' && typeof config[key] !== 'string') {
+      throw configError(path, key, 'a number or a string', config[key])
+    }
+  }
+  if ('numbers' in config) {
+    if (!isObject(config.numbers)) throw configError(path, 'numbers', 'an object', config.numbers)
+    checkConfigValues(config.numbers, path, 'numbers.', Object.values(numberFormatOptions), [], Object.values(numberFormatChoiceOptions))
+  }
+  return config as CLIOptions
+}
+
+function checkConfigValues(
+  config: Record<string, unknown>,
+  path: string,
+  prefix: string,
+  numberKeys: readonly string[],
+  booleanKeys: readonly string[],
+  choices: readonly { key: string, values: readonly string[] }[]
+) {
+  for (const [key, value] of Object.entries(config)) {
+    if (numberKeys.includes(key) && typeof value !== 'number') {
+      throw configError(path, prefix + key, 'a number', value)
+    }
+    if (booleanKeys.includes(key) && typeof value !== 'boolean') {
+      throw configError(path, prefix + key, 'true or false', value)
+    }
+    const choice = choices.find(c => c.key === key)
+    if (choice !== undefined && (typeof value !== 'string' || !choice.values.includes(value))) {
+      throw configError(path, prefix + key, `one of ${choice.values.join(', ')}`, value)
+    }
+  }
+}
+
+/**
+ * Finds the config for the given directory by checking it and its parent
+ * directories for a config file or a `fabulous-json` key in package.json.
+ */
+export async function findConfig(dir: string): Promise<CLIOptions> {
+  while (true) {
+    for (const name of configFileNames) {
+      const path = join(dir, name)
+      const config = await readJSONFile(path)
+      if (config !== undefined) return validateConfig(config, path)
+    }
+    const pkgPath = join(dir, 'package.json')
+    const pkg = await readJSONFile(pkgPath)
+    if (isObject(pkg) && typeof pkg['fabulous-json'] === 'object') {
+      return validateConfig(pkg['fabulous-json'], pkgPath)
+    }
+    const parent = dirname(dir)
+    if (parent === dir) return {}
+    dir = parent
+  }
+}
+
+/**
+ * Runs the command line tool.
+ *
+ * @param args - The command line arguments, not including the node
+ * executable and script path.
+ * @param io - Functions for reading and writing stdin, stdout, and stderr.
+ * @returns The exit code.
+ */
+export async function run(args: string[], io: CLIIO): Promise<number> {
+  let parsed: ReturnType<typeof parseArgs>
+  try {
+    parsed = parseArgs(args)
+  } catch (e) {
+    if (!(e instanceof UsageError)) throw e
+    io.stderr(`${e.message}\n\n${usage}`)
+    return 2
+  }
+  const { files, write, check, help, config } = parsed
+  if (help) {
+    io.stdout(usage)
+    return 0
+  }
+
+  let options: CLIOptions
+  try {
+    const configOptions: CLIOptions =
+      config === false ? {} :
+      config === undefined ? await findConfig(io.cwd) :
+      validateConfig(await readJSONFile(resolve(io.cwd, config), false), resolve(io.cwd, config))
+    options = {
+      ...configOptions,
+      ...parsed.options,
+      // Flags for the numbers options only replace the ones they are for
+      ...parsed.options.numbers && { numbers: { ...configOptions.numbers, ...parsed.options.numbers } },
+    }
+  } catch (e) {
+    io.stderr(e.message + '\n')
+    return 2
+  }
+
+  const inputs = files.length === 0 ? [ '-' ] : files
+  let exitCode = 0
+  for (const file of inputs) {
+    const name = file === '-' ? '<stdin>' : file
+    const path = resolve(io.cwd, file)
+    let text: string
+    try {
+      text = file === '-' ? await io.readStdin() : await readFile(path, 'utf-8')
+    } catch (e) {
+      io.stderr(`${name}: ${e.message}\n`)
+      exitCode = 2
+      continue
+    }
+
+    let result: string
+    try {
+      result = format(text, {
+        ...options,
+        jsonc: options.jsonc ?? path.endsWith('.jsonc'),
+        // JSON5 output is read back as JSON5, so files can be checked again
+        json5: options.json5 ?? (options.syntax === 'json5' || path.endsWith('.json5')),
+      }) + '\n'
+      // Files with Windows line endings keep them
+      if (text.match(/\r?\n/)?.[0] === '\r\n') result = result.replace(/\r?\n/g, '\r\n')
+    } catch (e) {
+      // Syntax errors, and options from config files that aren't valid
+      if (!(e instanceof Error)) throw e
+      io.stderr(`${name}: ${e.message}\n`)
+      exitCode = 2
+      continue
+    }
+
+    if (check) {
+      if (result !== text) {
+        io.stderr(`${name} is not formatted\n`)
+        exitCode ||= 1
+      }
+    } else if (write) {
+      if (result === text) continue
+      try {
+        await writeFile(path, result)
+      } catch (e) {
+        io.stderr(`${name}: ${e.message}\n`)
+        exitCode = 2
+      }
+    } else {
+      io.stdout(result)
+    }
+  }
+  return exitCode
+}
@@ -0,0 +1,106 @@
+import { expect, test } from 'vitest'
+import dedent from 'dedent'
+
+import stringify, { builtinCodecs, bufferCodec, dateCodec, mapCodec, setCodec, typedArrayCodec } from './index.ts'
+
+test('values without codecs are unchanged', () => {
+  expect(stringify({ a: new Map([['x', 1]]) })).toBe('{ "a": {} }')
+  expect(stringify([new Set([1])])).toBe('[ {} ]')
+})
+
+test('mapCodec', () => {
+  const map = new Map<unknown, unknown>([['a', 1], [true, [3]]])
+  expect(stringify(map, { codecs: [mapCodec()] })).toBe('{ "a": 1, "true": [ 3 ] }')
+  expect(stringify(map, { codecs: [mapCodec('entries')] })).toBe(dedent`
+    [
+      [ "a",  1     ],
+      [ true, [ 3 ] ]
+    ]
+  `)
+})
+
+test('setCodec', () => {
+  expect(stringify(new Set(['a', 'b']), { codecs: [setCodec()] })).toBe('[ "a", "b" ]')
+})
+
+test('dateCodec', () => {
+  const date = new Date(Date.UTC(2020, 0, 1))
+  expect(stringify([date], { codecs: [dateCodec()] })).toBe('[ "2020-01-01T00:00:00.000Z" ]')
+  expect(stringify([date], { codecs: [dateCodec('timestamp')] })).toBe('[ 1577836800000 ]')
+  expect(stringify([new Date(NaN)], { codecs: [dateCodec('timestamp')] })).toBe('[ null ]')
+})
+
+test('typedArrayCodec uses the compact long array layout', () => {
+  const arr = new Uint8Array(20).map((_, i) => i * 13)
+  expect(stringify({ data: arr }, { codecs: [typedArrayCodec()], maxLineLength: 40 })).toBe(dedent`
+    {
+      "data": [
+          0,  13,  26,  39,  52,
+         65,  78,  91, 104, 117,
+        130, 143, 156, 169, 182,
+        195, 208, 221, 234, 247
+      ]
+    }
+  `)
+  expect(stringify(new BigInt64Array([1n, 2n]), { codecs: [typedArrayCodec()], bigint: 'number' })).toBe('[ 1, 2 ]')
+})
+
+test('bufferCodec', () => {
+  const bytes = new Uint8Array([0, 1, 2, 253, 254, 255, 65])
+  for (let n = 0; n <= bytes.length; n++) {
+    const buffer = Buffer.from(bytes.subarray(0, n))
+    expect(stringify(buffer, { codecs: [bufferCodec()] })).toBe(JSON.stringify(buffer.toString('base64')))
+    expect(stringify(buffer, { codecs: [bufferCodec('hex')] })).toBe(JSON.stringify(buffer.toString('hex')))
+  }
+  expect(stringify(bytes.buffer, { codecs: [bufferCodec('hex')] })).toBe('"000102fdfeff41"')
+  expect(stringify(new DataView(bytes.buffer, 1, 2), { codecs: [bufferCodec('hex')] })).toBe('"0102"')
+})
+
+test('builtinCodecs', () => {
+  const value = {
+    buffer: Buffer.from('hi'),
+    floats: new Float32Array([0.5, 1.5]),
+    map: new Map([['a', new Set([1, 2])]]),
+    date: new Date(0)
+  }
+  expect(stringify(value, { codecs: builtinCodecs() })).toBe(dedent`
+    {
+      "buffer": "aGk=",
+      "floats": [ 0.5, 1.5 ],
+      "map": { "a": [ 1, 2 ] },
+      "date": "1970-01-01T00:00:00.000Z"
+    }
+  `)
+})
+
+test('custom codecs run before toJSON', () => {
+  class Vec3 {
+    constructor(public x: number, public y: number, public z: number) {}
+    toJSON() {
+      return { x: this.x, y: this.y, z: this.z }
+    }
+  }
+  const vec3Codec = {
+    test: (value: object) => value instanceof Vec3,
+    encode: (value: Vec3) => [ value.x, value.y, value.z ]
+  }
+  const value = { a: new Vec3(1, 2, 3), b: new Vec3(10, 20, 30) }
+  expect(stringify(value)).toBe(dedent`
+    {
+      "a": { "x":  1, "y":  2, "z":  3 },
+      "b": { "x": 10, "y": 20, "z": 30 }
+    }
+  `)
+  expect(stringify(value, { codecs: [vec3Codec] })).toBe(dedent`
+    {
+      "a": [  1,  2,  3 ],
+      "b": [ 10, 20, 30 ]
+    }
+  `)
+})
+
+test('circular references through codecs', () => {
+  const map = new Map<string, unknown>()
+  map.set('self', map)
+  expect(() => stringify(map, { codecs: [mapCodec()] })).toThrow('$.self refers to $')
+})
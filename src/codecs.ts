@@ -0,0 +1,146 @@
+/**
+ * Converts values of a specific type to something that can be converted to
+ * JSON. Codecs are checked in order, and the first one that accepts a value
+ * is used, before the value's `toJSON` method is called.
+ *
+ * ```js
+ * const vec3Codec = {
+ *   test: value => value instanceof Vec3,
+ *   encode: value => [ value.x, value.y, value.z ]
+ * }
+ * stringify(value, { codecs: [ vec3Codec ] })
+ * ```
+ */
+export type Codec = {
+  /**
+   * Checks if the codec should be used to convert a value.
+   * @param value An object or array in the JSON structure.
+   * @returns `true` if the codec should be used for the value.
+   */
+  test: (value: object) => boolean
+  /**
+   * Converts a value to something that can be converted to JSON.
+   * @param value A value that {@link Codec.test test} accepted.
+   * @param key The name of the property it is a value of.
+   * @returns The value to use instead.
+   */
+  encode: (value: any, key: string) => unknown
+}
+
+const base64Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+function toBase64(bytes: Uint8Array): string {
+  let result = ''
+  let i = 0
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = bytes[i] << 16 | bytes[i + 1] << 8 | bytes[i + 2]
+    result += base64Chars[n >> 18] + base64Chars[n >> 12 & 63] + base64Chars[n >> 6 & 63] + base64Chars[n & 63]
+  }
+  if (i + 1 === bytes.length) {
+    const n = bytes[i] << 16
+    result += base64Chars[n >> 18] + base64Chars[n >> 12 & 63] + '=='
+  } else if (i + 2 === bytes.length) {
+    const n = bytes[i] << 16 | bytes[i + 1] << 8
+    result += base64Chars[n >> 18] + base64Chars[n >> 12 & 63] + base64Chars[n >> 6 & 63] + '='
+  }
+  return result
+}
+
+function toHex(bytes: Uint8Array): string {
+  let result = ''
+  for (let i = 0; i < bytes.length; i++) {
+    result += bytes[i].toString(16).padStart(2, '0')
+  }
+  return result
+}
+
+function isNodeBuffer(value: object): boolean {
+  return globalThis.Buffer?.isBuffer(value) === true
+}
+
+/**
+ * Converts Maps to objects, or to arrays of `[ key, value ]` entries. When
+ * converted to objects, the keys are converted to strings using `String`.
+ *
+ * @param as - Either `'object'` or `'entries'`. Defaults to `'object'`.
+ */
+export function mapCodec(as: 'object' | 'entries' = 'object'): Codec {
+  return {
+    test: value => value instanceof Map,
+    encode: (value: Map<unknown, unknown>) => as === 'entries' ?
+      Array.from(value) :
+      Object.fromEntries(Array.from(value, ([k, v]) => [String(k), v]))
+  }
+}
+
+/**
+ * Converts Sets to arrays.
+ */
+export function setCodec(): Codec {
+  return {
+    test: value => value instanceof Set,
+    encode: (value: Set<unknown>) => Array.from(value)
+  }
+}
+
+/**
+ * Converts Dates to ISO strings like `Date.prototype.toJSON` does, or to
+ * timestamps in milliseconds. Invalid dates are converted to `null`.
+ *
+ * @param as - Either `'iso'` or `'timestamp'`. Defaults to `'iso'`.
+ */
+export function dateCodec(as: 'iso' | 'timestamp' = 'iso'): Codec {
+  return {
+    test: value => value instanceof Date,
+    encode: (value: Date) => {
+      const time = value.getTime()
+      if (Number.isNaN(time)) return null
+      return as === 'timestamp' ? time : value.toISOString()
+    }
+  }
+}
+
+/**
+ * Converts typed arrays, like `Float32Array` and `Uint8Array`, to arrays of
+ * numbers, or bigints for `BigInt64Array` and `BigUint64Array`. Long typed
+ * arrays can then use the compact long array layout.
+ */
+export function typedArrayCodec(): Codec {
+  return {
+    test: value => ArrayBuffer.isView(value) && !(value instanceof DataView),
+    encode: (value: ArrayLike<number | bigint>) => Array.from(value)
+  }
+}
+
+/**
+ * Converts binary data to base64 or hex strings. This applies to Node.js
+ * Buffers, `ArrayBuffer`s, and `DataView`s.
+ *
+ * @param encoding - Either `'base64'` or `'hex'`. Defaults to `'base64'`.
+ */
+export function bufferCodec(encoding: 'base64' | 'hex' = 'base64'): Codec {
+  return {
+    test: value => value instanceof ArrayBuffer || value instanceof DataView || isNodeBuffer(value),
+    encode: (value: ArrayBuffer | ArrayBufferView) => {
+      const bytes = value instanceof ArrayBuffer ?
+        new Uint8Array(value) :
+        new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+      return encoding === 'hex' ? toHex(bytes) : toBase64(bytes)
+    }
+  }
+}
+
+/**
+ * Gets a list of all the built-in codecs with their default settings. Buffers
+ * are converted to base64 strings, Maps to objects, Sets and typed arrays to
+ * arrays, and Dates to ISO strings.
+ */
+export function builtinCodecs(): Codec[] {
+  return [
+    bufferCodec(),
+    typedArrayCodec(),
+    mapCodec(),
+    setCodec(),
+    dateCodec(),
+  ]
+}
@@ -0,0 +1,174 @@
+import { expect, test } from 'vitest'
+
+import stringify, { stringifyIterable, type StringifyOptions } from './index.ts'
+
+/**
+ * Checks that the output reads back as the same value as the output of
+ * JSON.stringify, with the layouts that the options lead to. The layout has to
+ * be the same as for the plain value that JSON.stringify writes, so boxed
+ * primitives, toJSON results, and replaced values are laid out like what they
+ * are written as.
+ */
+function expectConforms(value: unknown, replacer?: (this: any, key: string, value: any) => any, allowList?: (string | number)[]) {
+  const expected = JSON.stringify(value, (replacer ?? allowList) as any)
+  const optionSets: StringifyOptions[] = [
+    {},
+    { indent: 0 },
+    { maxLineLength: 30 },
+    { maxLineLength: 200, tableKeyOrder: 'first' },
+    { tables: false, compactLongArrays: false }
+  ]
+  for (const options of optionSets) {
+    const replace = replacer ?? allowList
+    const withReplace = replace === undefined ? options : { ...options, replace }
+    const text = stringify(value, withReplace)
+    if (expected === undefined) {
+      expect(text).toBe(undefined)
+      continue
+    }
+    expect(JSON.parse(text)).toEqual(JSON.parse(expected))
+    // Allow lists also order the keys, which JSON.parse doesn't keep
+    const plainOptions = allowList === undefined ? options : { ...options, replace: allowList }
+    expect(text).toBe(stringify(JSON.parse(expected), plainOptions))
+    expect(Array.from(stringifyIterable(value, withReplace)).join('')).toBe(text)
+  }
+  if (expected !== undefined) {
+    expect(JSON.parse(stringify(value, (replacer ?? allowList) as any, 2))).toEqual(JSON.parse(expected))
+  }
+}
+
+const symbol = Symbol('symbol')
+
+function withGetter<T extends object>(obj: T, key: string, get: () => unknown): T {
+  return Object.defineProperty(obj, key, { get, enumerable: true })
+}
+
+test('edge cases write the same values as JSON.stringify', () => {
+  const cases: unknown[] = [
+    undefined,
+    null,
+    () => 1,
+    symbol,
+    -0,
+    NaN,
+    [ -0, NaN, Infinity, -Infinity ],
+    new Number(1),
+    new String('text'),
+    new Boolean(false),
+    [ new Number(1), new String('x'), new Boolean(true), Object(symbol) ],
+    [ new Number(1), new Number(2) ],
+    { a: new Number(1) },
+    { a: { b: NaN }, c: [ undefined, 1 ] },
+    { n: new Number(1.5), s: new String('ab'), b: new Boolean(true) },
+    [ { a: new Number(1), b: new String('x') }, { a: new Number(22), b: new String('yy') } ],
+    { a: new String('ab'), b: new String('cd') },
+    [ 1, , 3 ],
+    [ [ 1, , 3 ], [ 4, 5, 6 ] ],
+    [ [ 1, undefined ], [ 3, 4 ] ],
+    [ [ 1, () => 1 ], [ 3, symbol ] ],
+    [ 1, undefined, () => 1, symbol ],
+    [ { a: 1, b: undefined }, { a: 2, b: 3 } ],
+    [ { a: 1, b: () => 1 }, { a: 2, b: symbol } ],
+    { x: { a: 1 }, y: symbol, z: { a: 2 } },
+    { a: { x: 1 }, b: undefined, c: { x: 2 } },
+    { [symbol]: 1, a: 2 },
+    [ { [symbol]: 1, a: 1 }, { a: 2 } ],
+    Object.defineProperty({ a: 1 }, 'hidden', { value: 2 }),
+    Object.assign([ 1, 2 ], { extra: 3 }),
+    withGetter({ b: 2 }, 'a', () => 1),
+    [ withGetter({}, 'x', () => 1), withGetter({}, 'x', () => 22) ],
+    Object.create({ inherited: 1 }),
+    { toJSON: (key: string) => 'root:' + key },
+    { a: { toJSON: (key: string) => 'key:' + key }, b: [ { toJSON: (key: string) => 'key:' + key } ] },
+    [ { a: { toJSON: (key: string) => ({ key }) } }, { a: { key: 2 } } ],
+    { a: { toJSON: () => ({ toJSON: () => 1 }) } },
+    { a: { toJSON: () => undefined }, b: [ { toJSON: () => undefined } ] },
+    { d: new Date(0), rows: [ { d: new Date(1) }, { d: new Date(2) } ] },
+    { '': 1, ' ': 2, ' ': 3, '"': 4, '\\': 5, '\ud800': 6 },
+    [ '\ud800', '\udc00x', 'a\u0000b', '\u007f' ],
+    [ 1e21, 1e-7, 5e-324, 1.7976931348623157e308, 0.1 + 0.2 ],
+    { 2: 'b', 1: 'a', b: 2, a: 1 },
+    [ [], {}, [ [] ], [ {} ] ],
+    Array(20).fill(0).map((_, i) => i % 3 === 0 ? undefined : i)
+  ]
+  for (const value of cases) expectConforms(value)
+})
+
+test('replacers write the same values as JSON.stringify', () => {
+  const value = {
+    a: 1,
+    skip: 2,
+    fn: 3,
+    sym: 4,
+    missing: undefined,
+    date: new Date(0),
+    boxed: new Number(5),
+    rows: [ { a: 1, skip: 2, fn: 3 }, { a: 10, skip: 20, fn: 30 } ],
+    nested: [ { inner: { a: 1, skip: 2 } }, { inner: { a: 3, skip: 4 } } ],
+    list: [ 1, 2, 3 ],
+    grid: [ [ 1, 2 ], [ 3, 4 ] ]
+  }
+  const replacers: ((this: any, key: string, value: any) => any)[] = [
+    (key, value) => key === 'skip' ? undefined : value,
+    (key, value) => key === 'fn' ? () => 1 : key === 'sym' ? symbol : value,
+    (key, value) => value === undefined ? null : value,
+    (key, value) => typeof value === 'number' ? new Number(value * 2) : value,
+    (key, value) => typeof value === 'string' ? new String(value.toUpperCase()) : value,
+    (key, value) => key === 'inner' ? 'replaced' : value,
+    (key, value) => key === '1' ? undefined : value,
+    (key, value) => key === '0' && Array.isArray(value) ? { a: value[0] } : value,
+    function (key, value) { return key === 'a' ? Object.keys(this).length : value },
+    (key, value) => key === '' ? [ value.a, value.list ] : value
+  ]
+  for (const replacer of replacers) expectConforms(value, replacer)
+  for (const allowList of [ [ 'a', 'rows', 'list' ], [ 'nested', 'inner', 'a', 'a' ], [ 'grid', 0 ], [] ]) {
+    expectConforms(value, undefined, allowList)
+  }
+})
+
+test('generated values write the same values as JSON.stringify', () => {
+  let seed = 1
+  const random = () => (seed = seed * 16807 % 2147483647) / 2147483647
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)]
+  const leaves = [
+    () => 0, () => -0, () => NaN, () => Infinity, () => 1.5, () => -12, () => 1e21,
+    () => 'text', () => '', () => 'long text that does not fit on short lines',
+    () => true, () => false, () => null, () => undefined, () => () => 1, () => symbol,
+    () => new Number(2), () => new String('boxed'), () => new Boolean(true),
+    () => new Date(0), () => ({ toJSON: (key: string) => key })
+  ]
+  const keys = [ 'a', 'b', 'c', 'id', 'name', '0', '10' ]
+  function generate(depth: number): unknown {
+    const kind = random()
+    if (depth > 3 || kind < 0.35) return pick(leaves)()
+    if (kind < 0.5) {
+      // Arrays of similar objects and arrays, which can be tables
+      const row = () => random() < 0.5 ?
+        Object.fromEntries(keys.slice(0, 3).filter(() => random() < 0.8).map(k => [ k, generate(depth + 2) ])) :
+        [ generate(depth + 2), generate(depth + 2) ]
+      return Array.from({ length: 2 + Math.floor(random() * 3) }, row)
+    }
+    if (kind < 0.7) {
+      const array = Array.from({ length: Math.floor(random() * 6) }, () => generate(depth + 1))
+      // Sparse arrays
+      if (array.length > 2 && random() < 0.3) delete array[1]
+      return array
+    }
+    const obj: Record<string | symbol, unknown> = {}
+    for (let i = Math.floor(random() * 5); i > 0; i--) obj[pick(keys)] = generate(depth + 1)
+    if (random() < 0.2) obj[symbol] = 1
+    if (random() < 0.2) withGetter(obj, 'getter', () => 'got')
+    if (random() < 0.2) Object.defineProperty(obj, 'hidden', { value: 1 })
+    return obj
+  }
+  const replacers: (((this: any, key: string, value: any) => any) | undefined)[] = [
+    undefined,
+    (key, value) => key === 'b' ? undefined : value,
+    (key, value) => typeof value === 'number' ? value * 2 : value
+  ]
+  for (let i = 0; i < 300; i++) {
+    const value = generate(0)
+    for (const replacer of replacers) expectConforms(value, replacer)
+    expectConforms(value, undefined, [ 'a', 'id', '0' ])
+  }
+})
@@ -0,0 +1,33 @@
+import { expect, test } from 'vitest'
+
+import { getQuoteFunction } from './escape.ts'
+
+test('json escaping', () => {
+  const quote = getQuoteFunction('json')
+  expect(quote('a"b\n')).toBe('"a\\"b\\n"')
+  expect(quote('日本 <b>')).toBe('"日本 <b>"')
+})
+
+test('ascii escaping', () => {
+  const quote = getQuoteFunction('ascii')
+  expect(quote('abc')).toBe('"abc"')
+  expect(quote('é日')).toBe('"\\u00e9\\u65e5"')
+  expect(quote('😀')).toBe('"\\ud83d\\ude00"')
+  expect(quote('\u2028')).toBe('"\\u2028"')
+  expect(quote('\ud800')).toBe('"\\ud800"')
+  expect(quote('<a & b>')).toBe('"<a & b>"')
+  expect(JSON.parse(quote('é日😀\u2028'))).toBe('é日😀\u2028')
+})
+
+test('html escaping', () => {
+  const quote = getQuoteFunction('html')
+  expect(quote('</script><!--')).toBe('"\\u003c/script\\u003e\\u003c!--"')
+  expect(quote('a & b\u2029é')).toBe('"a \\u0026 b\\u2029\\u00e9"')
+  expect(JSON.parse(quote('</script> & \u2028'))).toBe('</script> & \u2028')
+})
+
+test('custom escaping', () => {
+  const quote = getQuoteFunction(json => json.replaceAll('/', '\\/'))
+  expect(quote('a/b')).toBe('"a\\/b"')
+  expect(() => getQuoteFunction('utf8' as any)).toThrow(`'escape' must be 'json', 'ascii', 'html', or a function.`)
+})
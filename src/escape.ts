@@ -0,0 +1,56 @@
+/**
+ * How strings and keys are escaped, in addition to the escaping that
+ * `JSON.stringify` does.
+ *
+ * - `'json'` only escapes what JSON requires, like `JSON.stringify`.
+ * - `'ascii'` also writes every character outside of ASCII as `\uXXXX`.
+ *   Characters outside the Basic Multilingual Plane, like most emoji, are
+ *   written as their surrogate pairs, like `\ud83d\ude00`.
+ * - `'html'` is the same as `'ascii'`, but also escapes `<`, `>`, and `&`,
+ *   so that the output can be embedded in HTML, for example inside a
+ *   `<script>` element.
+ * - A function is given each string as the JSON string literal that
+ *   `JSON.stringify` makes of it, quotes included, and returns the text to
+ *   write instead. It must return a valid JSON string literal.
+ */
+export type EscapeMode = 'json' | 'ascii' | 'html' | ((json: string) => string)
+
+/**
+ * The characters that `JSON.stringify` escapes in strings, and surrogates,
+ * which it escapes unless they are paired.
+ */
+const escapedPattern = /["\\\u0000-\u001f\ud800-\udfff]/
+
+/**
+ * Same as `JSON.stringify` for strings, but faster for the strings that
+ * don't need any escaping, which most don't.
+ */
+function quoteJSON(text: string): string {
+  return escapedPattern.test(text) ? JSON.stringify(text) : '"' + text + '"'
+}
+
+function escapeCodeUnit(c: string): string {
+  return '\\u' + c.charCodeAt(0).toString(16).padStart(4, '0')
+}
+
+function escapeASCII(json: string): string {
+  return json.replace(/[^\x00-\x7f]/g, escapeCodeUnit)
+}
+
+function escapeHTML(json: string): string {
+  return json.replace(/[^\x00-\x7f]|[<>&]/g, escapeCodeUnit)
+}
+
+/**
+ * Gets the function that converts strings to JSON string literals for an
+ * {@link EscapeMode}.
+ */
+export function getQuoteFunction(mode: EscapeMode): (text: string) => string {
+  if (typeof mode === 'function') return text => mode(quoteJSON(text))
+  switch (mode) {
+    case 'json': return quoteJSON
+    case 'ascii': return text => escapeASCII(quoteJSON(text))
+    case 'html': return text => escapeHTML(quoteJSON(text))
+  }
+  throw new Error(`'escape' must be 'json', 'ascii', 'html', or a function.`)
+}
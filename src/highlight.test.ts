@@ -0,0 +1,64 @@
+import { expect, test } from 'vitest'
+import dedent from 'dedent'
+
+import { highlight } from './highlight.ts'
+import { format, stringifyHighlighted } from './index.ts'
+
+const stripAnsi = (text: string) => text.replace(/\x1b\[[\d;]*m/g, '')
+
+test('ANSI highlighting', () => {
+  expect(highlight('{ "a": [ 1, "b", true, null ] }')).toBe(
+    '{ \x1b[34m"a"\x1b[0m: [ \x1b[33m1\x1b[0m, \x1b[32m"b"\x1b[0m, \x1b[35mtrue\x1b[0m, \x1b[35mnull\x1b[0m ] }'
+  )
+})
+
+test('HTML highlighting', () => {
+  expect(highlight('{ "a": "<b>" }', { highlight: 'html' })).toBe(
+    '<span class="json-punctuation">{</span> ' +
+    '<span class="json-key">&quot;a&quot;</span><span class="json-punctuation">:</span> ' +
+    '<span class="json-string">&quot;&lt;b&gt;&quot;</span> ' +
+    '<span class="json-punctuation">}</span>'
+  )
+})
+
+test('custom themes', () => {
+  expect(highlight('{ "a": 1 }', { theme: { key: '1;31', number: '' } })).toBe('{ \x1b[1;31m"a"\x1b[0m: 1 }')
+  expect(highlight('[ 1 ]', { highlight: 'html', theme: { punctuation: '' } })).toBe('[ <span class="json-number">1</span> ]')
+})
+
+test('comments are highlighted', () => {
+  const text = format('{\n  // Comment\n  "a": 1\n}', { jsonc: true })
+  expect(highlight(text)).toBe('{\n  \x1b[90m// Comment\x1b[0m\n  \x1b[34m"a"\x1b[0m: \x1b[33m1\x1b[0m\n}')
+})
+
+test('stringifyHighlighted keeps the layout of the plain text', () => {
+  const value = {
+    rows: [
+      { name: 'first', value: 1.5 },
+      { name: 'second', value: 10 }
+    ],
+    list: Array.from({ length: 30 }, (_, i) => i * 100)
+  }
+  const result = stringifyHighlighted(value, { maxLineLength: 40 })
+  expect(result).not.toBe(stripAnsi(result))
+  expect(stripAnsi(result)).toBe(dedent`
+    {
+      "rows": [
+        { "name": "first",  "value":  1.5 },
+        { "name": "second", "value": 10   }
+      ],
+      "list": [
+           0,  100,  200,  300,  400,  500,
+         600,  700,  800,  900, 1000, 1100,
+        1200, 1300, 1400, 1500, 1600, 1700,
+        1800, 1900, 2000, 2100, 2200, 2300,
+        2400, 2500, 2600, 2700, 2800, 2900
+      ]
+    }
+  `)
+  expect(stringifyHighlighted(undefined)).toBe(undefined)
+})
+
+test('invalid highlight mode throws', () => {
+  expect(() => highlight('1', { highlight: 'svg' as any })).toThrow(`'highlight' must be 'ansi' or 'html'.`)
+})
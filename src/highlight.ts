@@ -0,0 +1,111 @@
+import { tokenize } from './parse.js'
+
+export type HighlightTokenType = 'key' | 'string' | 'number' | 'boolean' | 'null' | 'punctuation' | 'comment'
+
+/**
+ * How to style each type of token. For ANSI output, the values are SGR
+ * parameters like `'32'` for green or `'1;34'` for bold blue. For HTML
+ * output, they are class names for the `<span>` elements around the tokens.
+ * Tokens with an empty or missing style are left as they are.
+ */
+export type HighlightTheme = Partial<Record<HighlightTokenType, string>>
+
+export type HighlightOptions = {
+  /**
+   * Either `'ansi'` to color the output with ANSI escape codes for
+   * terminals, or `'html'` to wrap the tokens in `<span>` elements with class
+   * names. HTML output is also escaped so that it can be inserted into a page
+   * as is, for example inside a `<pre>` element.
+   *
+   * Defaults to `'ansi'`.
+   */
+  highlight?: 'ansi' | 'html'
+  /**
+   * The styles to use for the tokens, see {@link HighlightTheme}. Missing
+   * token types use the styles from the default theme.
+   *
+   * Defaults to {@link defaultAnsiTheme} or {@link defaultHTMLTheme},
+   * depending on {@link HighlightOptions.highlight highlight}.
+   */
+  theme?: HighlightTheme
+}
+
+/**
+ * The default theme for ANSI output. Keys are blue, strings green, numbers
+ * yellow, booleans and null magenta, and comments gray.
+ */
+export const defaultAnsiTheme: Readonly<HighlightTheme> = Object.freeze({
+  key: '34',
+  string: '32',
+  number: '33',
+  boolean: '35',
+  null: '35',
+  comment: '90',
+})
+
+/**
+ * The default theme for HTML output, which uses `json-` followed by the token
+ * type as the class names, like `json-key` and `json-string`.
+ */
+export const defaultHTMLTheme: Readonly<HighlightTheme> = Object.freeze({
+  key: 'json-key',
+  string: 'json-string',
+  number: 'json-number',
+  boolean: 'json-boolean',
+  null: 'json-null',
+  punctuation: 'json-punctuation',
+  comment: 'json-comment',
+})
+
+function escapeHTML(text: string): string {
+  return text.replace(/[&<>"]/g, c =>
+    c === '&' ? '&amp;' :
+    c === '<' ? '&lt;' :
+    c === '>' ? '&gt;' :
+    '&quot;'
+  )
+}
+
+/**
+ * Adds syntax highlighting to JSON text. The whitespace in the text is kept
+ * as it is, so the layout stays the same when the text is displayed.
+ *
+ * @param text - The JSON text to highlight. It may contain comments, and
+ * JSON5 syntax like unquoted keys.
+ * @param options - An optional object containing highlighting options.
+ * @returns The highlighted text.
+ * @throws {JSONSyntaxError} If the text contains something that isn't a
+ * valid JSON token.
+ */
+export function highlight(text: string, options?: HighlightOptions): string {
+  const mode = options?.highlight ?? 'ansi'
+  if (mode !== 'ansi' && mode !== 'html') {
+    throw new Error(`'highlight' must be 'ansi' or 'html'.`)
+  }
+  const theme: HighlightTheme = {
+    ...(mode === 'html' ? defaultHTMLTheme : defaultAnsiTheme),
+    ...options?.theme
+  }
+  const escape = mode === 'html' ? escapeHTML : (s: string) => s
+  const wrap = (type: HighlightTokenType, s: string) => {
+    const style = theme[type]
+    if (!style) return escape(s)
+    return mode === 'html' ?
+      `<span class="${escapeHTML(style)}">${escape(s)}</span>` :
+      `\x1b[${style}m${s}\x1b[0m`
+  }
+
+  const tokens = Array.from(tokenize(text, { comments: true, json5: true }))
+  let result = ''
+  let pos = 0
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    const next = tokens[i + 1]
+    const type =
+      token.type === 'identifier' || token.type === 'string' && next?.type === 'punctuation' && next.text === ':' ? 'key' :
+      token.type
+    result += escape(text.slice(pos, token.offset)) + wrap(type, token.text)
+    pos = token.offset + token.text.length
+  }
+  return result + escape(text.slice(pos))
+}
@@ -1,7 +1,9 @@
+import { Writable } from 'node:stream'
 import { expect, test } from 'vitest'
 import dedent from 'dedent'
 
-import stringify from './index.ts'
+import stringify, { CircularReferenceError, format, JSONSyntaxError, renderLayout, stringifyIterable, stringifyLayout, stringifyToStream, type ValuePath } from './index.ts'
+import { parse } from './parse.ts'
 
 test('undefined results in undefined', () => {
   expect(stringify(undefined)).toBe(undefined)
@@ -67,6 +69,92 @@ test('replace', () => {
   expect(stringify(obj, { replace })).toBe('{ "a": 2, "b": 4 }')
 })
 
+test('replace is called once for each value', () => {
+  const value = {
+    rows: [ { a: 1, b: [ 1, 2 ] }, { a: 2, b: [ 3 ] } ],
+    grid: [ [ 1, 2 ], [ 3, 4 ] ],
+    deep: { x: { y: { z: 1 } } },
+    long: Array.from({ length: 30 }, (_, i) => ({ i }))
+  }
+  const expected: string[] = []
+  JSON.stringify(value, (key, value) => (expected.push(key), value))
+  for (const options of [ {}, { tables: false }, { maxLineLength: 20 }, { indent: 0 } ]) {
+    const keys: string[] = []
+    const replace = (key: string, value: any) => (keys.push(key), value)
+    stringify(value, { ...options, replace })
+    expect(keys.sort()).toEqual(expected.toSorted())
+    keys.length = 0
+    Array.from(stringifyIterable(value, { ...options, replace }))
+    expect(keys.sort()).toEqual(expected.toSorted())
+  }
+})
+
+test('replace is called in the same order as in JSON.stringify', () => {
+  const value = {
+    rows: [ { a: { x: 1 } }, { a: { x: 2 } } ],
+    other: { p: 1, q: [ 2, 3 ] },
+    long: Array.from({ length: 30 }, (_, i) => ({ i }))
+  }
+  const keys: string[] = []
+  const replace = (key: string, value: any) => (keys.push(key), value)
+  JSON.stringify(value, replace)
+  const expected = keys.splice(0)
+  for (const options of [ {}, { tables: false }, { maxLineLength: 20 }, { indent: 0 } ]) {
+    stringify(value, { ...options, replace })
+    expect(keys.splice(0)).toEqual(expected)
+    Array.from(stringifyIterable(value, { ...options, replace }))
+    expect(keys.splice(0)).toEqual(expected)
+  }
+})
+
+test('replace with an array of property names', () => {
+  const rows = [ { id: 1, name: 'a', secret: 'x' }, { secret: 'y', name: 'bb', id: 22 } ]
+  expect(stringify({ rows, total: 2, skipped: 0 }, { replace: [ 'total', 'rows', 'name', 'id', 'name' ] })).toBe(dedent`
+    {
+      "total": 2,
+      "rows": [
+        { "name": "a",  "id":  1 },
+        { "name": "bb", "id": 22 }
+      ]
+    }
+  `)
+  expect(stringify({ 1: 'one', 2: 'two', nested: [ { 1: true } ] }, { replace: [ 1, new String('nested') as any ], indent: 0 })).toBe(
+    '{"1":"one","nested":[{"1":true}]}'
+  )
+  expect(() => stringify({}, { replace: 'a' as any })).toThrow(`'replace' must be a function or an array.`)
+})
+
+test('JSON.stringify arguments', () => {
+  const value = { a: 1, b: [ { c: 2, d: 3 } ], e: undefined, f: 'text' }
+  const replace = (key: string, value: any) => typeof value === 'number' ? value * 10 : value
+  for (const replacer of [ undefined, null, replace, [ 'a', 'b', 'd' ] ]) {
+    if (replacer !== undefined) expect(stringify(value, replacer as any)).toBe(JSON.stringify(value, replacer as any))
+    for (const space of [ undefined, 0, -1, '', true, {} ]) {
+      expect(stringify(value, replacer as any, space as any)).toBe(JSON.stringify(value, replacer as any, space as any))
+    }
+  }
+  expect(stringify(value, [ 'b', 'c' ], 2)).toBe(dedent`
+    {
+      "b": [ { "c": 2 } ]
+    }
+  `)
+  expect(stringify([ 1, 2 ], null, 20)).toBe(stringify([ 1, 2 ], { indent: 10 }))
+  expect(stringify(value)).toBe(dedent`
+    {
+      "a": 1,
+      "b": [ { "c": 2, "d": 3 } ],
+      "f": "text"
+    }
+  `)
+  expect(stringify(value, undefined)).toBe(stringify(value))
+  expect(stringify(value, null)).toBe(JSON.stringify(value, null))
+  expect(stringify(value, undefined, undefined)).toBe(JSON.stringify(value, undefined, undefined))
+  const nested = { a: { b: { c: 1 } } }
+  expect(stringify(nested, null, new Number(3) as any)).toBe(stringify(nested, { indent: 3 }))
+  expect(stringify(nested, null, new String('\t') as any)).toBe(stringify(nested, { indent: '\t' }))
+  expect(stringify(nested, null, '\t'.repeat(12))).toBe(stringify(nested, { indent: '\t'.repeat(10) }))
+})
+
 test('indent', () => {
   const obj = { a: 1, b: 2 }
   expect(stringify(obj, { maxLineLength: 0, indent: 2 })).toBe('{\n  "a": 1,\n  "b": 2\n}')
@@ -177,8 +265,8 @@ test('compactLongArrays', () => {
   })).toBe(dedent`
     {
       "numbers": [
-        1,  2,  3,  4,  5,  6,
-        7,  8,  9,  10, 11, 12,
+         1,  2,  3,  4,  5,  6,
+         7,  8,  9, 10, 11, 12,
         13, 14, 15, 16, 17, 18,
         19, 20, 21, 22, 23, 24,
         25, 26
@@ -239,3 +327,1071 @@ test('tables with missing properties', () => {
     }
   `)
 })
+
+test('format keeps number literals as written', () => {
+  expect(format('{"a":1.50,"b":12345678901234567890,"c":1e3,"d":-0}')).toBe(
+    '{ "a": 1.50, "b": 12345678901234567890, "c": 1e3, "d": -0 }'
+  )
+})
+
+test('format uses the same layout as stringify', () => {
+  const obj = {
+    a: { type: 35, rotation: [  0, 130, 0 ] },
+    b: { type: 35                           },
+    d: { type: 35, rotation: [ 90,   0, 0 ] }
+  }
+  expect(format(JSON.stringify(obj))).toBe(stringify(obj))
+  expect(format('[[1.0,2],[10.25,3]]')).toBe(dedent`
+    [
+      [  1.0,  2 ],
+      [ 10.25, 3 ]
+    ]
+  `)
+})
+
+test('format reports syntax errors with line and column', () => {
+  expect(() => format('{\n  "a": 1,\n  "b": tru\n}')).toThrow(JSONSyntaxError)
+  try {
+    format('{\n  "a": 1,\n  "b": tru\n}')
+  } catch (e) {
+    expect(e.line).toBe(3)
+    expect(e.column).toBe(8)
+  }
+})
+
+test('format keeps comments with jsonc', () => {
+  const text = dedent`
+    // Top
+    {
+      // Compiler options
+      "compilerOptions": {
+        "target": "ES2022", // Modern
+        "lib": ["es2024",],
+        /**
+         * Strict mode
+         */
+        "strict": true,
+      },
+      "files": [
+        "a.ts", // First
+        "b.ts"
+        // End of files
+      ],
+      "sizes": [ [ 1, 2 ], [ 3, 4 ] ]
+    }
+  `
+  expect(format(text, { jsonc: true })).toBe(dedent`
+    // Top
+    {
+      // Compiler options
+      "compilerOptions": {
+        "target": "ES2022", // Modern
+        "lib": [ "es2024" ],
+        /**
+         * Strict mode
+         */
+        "strict": true
+      },
+      "files": [
+        "a.ts", // First
+        "b.ts"
+        // End of files
+      ],
+      "sizes": [
+        [ 1, 2 ],
+        [ 3, 4 ]
+      ]
+    }
+  `)
+})
+
+test('format keeps comments on keys named like Object.prototype members', () => {
+  const text = dedent`
+    {
+      "toString": 1, // a
+      "constructor": 2,
+      // b
+      "__proto__": 3,
+      "valueOf": 4
+    }
+  `
+  expect(format(text, { jsonc: true })).toBe(text)
+  expect(format('{ "toString": [ 1 ], "constructor": 2 /* c */ }', { jsonc: true })).toBe(dedent`
+    {
+      "toString": [ 1 ],
+      "constructor": 2 /* c */
+    }
+  `)
+})
+
+test('comments prevent inlining and tables', () => {
+  const text = dedent`
+    {
+      "a": { "x": 1, "y": 2 },
+      "b": { "x": 3, "y": 4 /* Four */ },
+      "c": { "x": 5, "y": 6 }
+    }
+  `
+  expect(format(text, { jsonc: true })).toBe(dedent`
+    {
+      "a": { "x": 1, "y": 2 },
+      "b": {
+        "x": 3,
+        "y": 4 /* Four */
+      },
+      "c": { "x": 5, "y": 6 }
+    }
+  `)
+  expect(format(text.replace(' /* Four */', ''), { jsonc: true })).toBe(dedent`
+    {
+      "a": { "x": 1, "y": 2 },
+      "b": { "x": 3, "y": 4 },
+      "c": { "x": 5, "y": 6 }
+    }
+  `)
+})
+
+test('circular references throw CircularReferenceError with the path', () => {
+  const graph: any = { nodes: [{ id: 0 }, { id: 1 }, { id: 2 }, { id: 3 }] }
+  graph.nodes[3].parent = graph.nodes
+  let error: CircularReferenceError
+  try {
+    stringify(graph)
+  } catch (e) {
+    error = e
+  }
+  expect(error).toBeInstanceOf(CircularReferenceError)
+  expect(error).toBeInstanceOf(TypeError)
+  expect(error.path).toBe('$.nodes[3].parent')
+  expect(error.targetPath).toBe('$.nodes')
+
+  const self: any = { a: 1 }
+  self['the self'] = self
+  expect(() => stringify(self)).toThrow('$["the self"] refers to $')
+  expect(() => stringify(self, { indent: 0 })).toThrow(CircularReferenceError)
+})
+
+test('circular references through toJSON and replace', () => {
+  const a: any = { toJSON: () => ({ self: a }) }
+  expect(() => stringify([a])).toThrow('$[0].self refers to $[0]')
+
+  const root = { a: { b: 1 } }
+  expect(() => stringify(root, {
+    replace: (key, value) => key === 'b' ? root : value
+  })).toThrow('$.a.b refers to $')
+})
+
+test('shared references that are not circular are allowed', () => {
+  const shared = { x: 1 }
+  expect(stringify({ a: shared, b: [shared] })).toBe(dedent`
+    {
+      "a": { "x": 1 },
+      "b": [ { "x": 1 } ]
+    }
+  `)
+  const withToJSON = { toJSON() { return this }, y: 2 }
+  expect(stringify(withToJSON)).toBe('{ "y": 2 }')
+})
+
+test('onCircular', () => {
+  const rows: any[] = [{ id: 0 }, { id: 1 }]
+  rows[1].self = rows[1]
+  expect(stringify(rows, { onCircular: 'ref' })).toBe(dedent`
+    [
+      { "id": 0                             },
+      { "id": 1, "self": { "$ref": "$[1]" } }
+    ]
+  `)
+  expect(stringify(rows, {
+    tables: false,
+    onCircular: (path, targetPath) => `[Circular ${path} -> ${targetPath}]`
+  })).toBe(dedent`
+    [
+      { "id": 0 },
+      { "id": 1, "self": "[Circular $[1].self -> $[1]]" }
+    ]
+  `)
+})
+
+test('circular references in tables', () => {
+  const a: any = { x: 1 }
+  const b: any = { x: 2 }
+  a.y = a
+  b.y = b
+  expect(stringify({ a, b }, { onCircular: 'ref' })).toBe(dedent`
+    {
+      "a": { "x": 1, "y": { "$ref": "$.a" } },
+      "b": { "x": 2, "y": { "$ref": "$.b" } }
+    }
+  `)
+})
+
+test('indent 0 results in the same string as JSON.stringify', () => {
+  const obj = { a: [1, 'two', null, { b: true }], c: { d: [] }, e: undefined, f: () => 1, g: [undefined] }
+  expect(stringify(obj, { indent: 0 })).toBe(JSON.stringify(obj))
+})
+
+test('bigint', () => {
+  const obj = { a: 12345678901234567890n, b: -1n }
+  expect(() => stringify(obj)).toThrow(TypeError)
+  expect(() => stringify(obj, { bigint: 'throw' })).toThrow(TypeError)
+  expect(stringify(obj, { bigint: 'number' })).toBe('{ "a": 12345678901234567890, "b": -1 }')
+  expect(stringify(obj, { bigint: 'string' })).toBe('{ "a": "12345678901234567890", "b": "-1" }')
+  expect(stringify(obj, { bigint: 'number', indent: 0 })).toBe('{"a":12345678901234567890,"b":-1}')
+})
+
+test('bigints in tables are aligned as numbers', () => {
+  const rows = [
+    { id: 9007199254740993n, weight: 1.5 },
+    { id: 42n, weight: 10 }
+  ]
+  expect(stringify(rows, { bigint: 'number' })).toBe(dedent`
+    [
+      { "id": 9007199254740993, "weight":  1.5 },
+      { "id":               42, "weight": 10   }
+    ]
+  `)
+  expect(stringify([[1n, 2.5], [100n, 3]], { bigint: 'number' })).toBe(dedent`
+    [
+      [   1, 2.5 ],
+      [ 100, 3   ]
+    ]
+  `)
+})
+
+test('sortKeys', () => {
+  const obj = { b: 1, c: { z: 1, y: 2 }, a: 3 }
+  expect(stringify(obj, { sortKeys: true })).toBe('{ "a": 3, "b": 1, "c": { "y": 2, "z": 1 } }')
+  expect(stringify(obj, { sortKeys: (a, b) => b.localeCompare(a) })).toBe('{ "c": { "z": 1, "y": 2 }, "b": 1, "a": 3 }')
+  expect(stringify(obj, {
+    sortKeys: {
+      order: (path, keys) => path.string === '$' ? ['c', 'missing'] : keys.reverse()
+    }
+  })).toBe('{ "c": { "y": 2, "z": 1 }, "b": 1, "a": 3 }')
+})
+
+test('sortKeys applies to table columns', () => {
+  const rows = [
+    { name: 'a', id: 1 },
+    { id: 2, name: 'b' },
+    { value: 3, id: 3 }
+  ]
+  expect(stringify(rows)).toBe(dedent`
+    [
+      { "name": "a", "id": 1 },
+      { "id": 2, "name": "b" },
+      { "value": 3, "id": 3 }
+    ]
+  `)
+  expect(stringify(rows, { sortKeys: true })).toBe(dedent`
+    [
+      { "id": 1, "name": "a"             },
+      { "id": 2, "name": "b"             },
+      { "id": 3,              "value": 3 }
+    ]
+  `)
+  expect(stringify(rows, {
+    sortKeys: { order: path => path.string.startsWith('$[') ? ['name', 'id', 'value'] : [] }
+  })).toBe(dedent`
+    [
+      { "name": "a", "id": 1             },
+      { "name": "b", "id": 2             },
+      {              "id": 3, "value": 3 }
+    ]
+  `)
+})
+
+test('callbacks are given the path of the value', () => {
+  const paths = new Set<string>()
+  stringify({ a: [ 1, { 'b c': 2 } ] }, {
+    replace(key, value, path) {
+      paths.add(path.string)
+      return value
+    }
+  })
+  expect([ ...paths ]).toEqual([ '$', '$.a', '$.a[0]', '$.a[1]', '$.a[1]["b c"]' ])
+
+  const segments: (string | number)[][] = []
+  stringify({ a: [ { b: 1 } ] }, {
+    allowInline(key, value, path) {
+      segments.push([ ...path.segments ])
+      return true
+    }
+  })
+  expect(segments).toContainEqual([ 'a', 0 ])
+})
+
+test('callbacks are given the context of the value', () => {
+  const value = { rows: [ { a: [ 1, 2 ] }, { a: [ 3 ] } ] }
+  const replaced: [ string, number, unknown ][] = []
+  const inlined: [ string, boolean, number | undefined ][] = []
+  const tables: [ string, boolean ][] = []
+  expect(stringify(value, {
+    replace(key, value, path, context) {
+      replaced.push([ context.path.string, context.depth, context.parent ])
+      expect(context.tableCell).toBe(false)
+      expect(context.inlineWidth).toBe(undefined)
+      return value
+    },
+    allowInline(key, value, path, context) {
+      inlined.push([ path.string, context.tableCell, context.inlineWidth ])
+      expect(context.parent).toBe(this)
+      return true
+    },
+    allowTable(key, value, path, context) {
+      tables.push([ path.string, context.tableCell ])
+      return true
+    }
+  })).toBe(dedent`
+    {
+      "rows": [
+        { "a": [ 1, 2 ] },
+        { "a": [ 3 ]    }
+      ]
+    }
+  `)
+  expect(replaced).toEqual([
+    [ '$', 0, { '': value } ],
+    [ '$.rows', 1, value ],
+    [ '$.rows[0]', 2, value.rows ],
+    [ '$.rows[0].a', 3, value.rows[0] ],
+    [ '$.rows[0].a[0]', 4, value.rows[0].a ],
+    [ '$.rows[0].a[1]', 4, value.rows[0].a ],
+    [ '$.rows[1]', 2, value.rows ],
+    [ '$.rows[1].a', 3, value.rows[1] ],
+    [ '$.rows[1].a[0]', 4, value.rows[1].a ]
+  ])
+  expect(inlined).toContainEqual([ '$.rows[0].a', true, 8 ])
+  expect(inlined).toContainEqual([ '$', false, 49 ])
+  expect(new Set(inlined.map(([ path, tableCell ]) => path + tableCell)).size).toBe(inlined.length)
+  expect(tables).toContainEqual([ '$.rows', false ])
+  expect(new Set(tables.map(([ path ]) => path)).size).toBe(tables.length)
+})
+
+test('overrides', () => {
+  const value = {
+    inline: { a: 1, b: 2 },
+    multiline: { a: 1, b: 2 },
+    rows: [ { x: 1, y: 2 }, { x: 3, y: 4 } ]
+  }
+  expect(stringify(value, {
+    maxObjectProperties: 1,
+    overrides: [
+      { path: '$.inline', options: { maxObjectProperties: 2 } },
+      { path: '$.rows', options: { tables: false, maxObjectProperties: 2 } }
+    ]
+  })).toBe(dedent`
+    {
+      "inline": { "a": 1, "b": 2 },
+      "multiline": {
+        "a": 1,
+        "b": 2
+      },
+      "rows": [
+        { "x": 1, "y": 2 },
+        { "x": 3, "y": 4 }
+      ]
+    }
+  `)
+})
+
+test('overrides with wildcards', () => {
+  const value = { layers: [ { keys: [ 1, 2 ] }, { keys: [ 3, 4 ] } ], other: { keys: [ 5, 6 ] } }
+  expect(stringify(value, {
+    overrides: [ { path: '$.layers[*].keys', options: { maxArrayItems: 1 } } ]
+  })).toBe(dedent`
+    {
+      "layers": [
+        {
+          "keys": [
+            1, 2
+          ]
+        },
+        {
+          "keys": [
+            3, 4
+          ]
+        }
+      ],
+      "other": { "keys": [ 5, 6 ] }
+    }
+  `)
+  expect(stringify(value, {
+    overrides: [ { path: '$.**.keys', options: { maxArrayItems: 1 } } ]
+  })).toBe(stringify(value, {
+    overrides: [ { path: [ '$.layers[*].keys', '$.oth*.keys' ], options: { maxArrayItems: 1 } } ]
+  }))
+})
+
+test('overrides with invalid selectors throw', () => {
+  expect(() => stringify({}, { overrides: [ { path: 'layers', options: {} } ] }))
+    .toThrow(`Invalid path selector 'layers': it must start with '$'.`)
+})
+
+test('stringifyIterable gives the same result as stringify', () => {
+  const values = [
+    undefined,
+    1,
+    [],
+    {},
+    { a: [ 1, 2, 3 ], b: { c: 'd' } },
+    { rows: [ { x: 1, y: 2 }, { x: 3, y: 4 } ], list: Array.from({ length: 20 }, (_, i) => i) },
+    { nested: Array.from({ length: 10 }, (_, i) => ({ id: i, children: i % 2 ? [ { id: i } ] : undefined })) },
+    [ [ [ [ 'deep' ] ] ], { a: [ { b: [ 1 ] } ] } ],
+    { a: undefined, b: () => {}, c: { d: undefined } },
+  ]
+  for (const value of values) {
+    for (const options of [ {}, { indent: 0 }, { maxLineLength: 20 }, { tables: false, sortKeys: true } ]) {
+      expect([ ...stringifyIterable(value, options) ].join('')).toBe(stringify(value, options) ?? '')
+    }
+  }
+  const commented = dedent`
+    {
+      // Comment
+      "a": [ 1, 2 ], // Trailing
+      "b": { "c": [ { "d": 1 } ] }
+    }
+  `
+  expect([ ...stringifyIterable(parse(commented, { jsonc: true }), {}) ].join('')).toBe(format(commented, { jsonc: true }))
+})
+
+test('stringifyIterable yields large values in chunks', () => {
+  const value = Array.from({ length: 5000 }, (_, i) => ({ id: i, data: [ { value: i } ], ...(i % 2 ? { odd: true } : {}) }))
+  const chunks = [ ...stringifyIterable(value, { tables: false }) ]
+  expect(chunks.length).toBeGreaterThan(1)
+  expect(chunks.join('')).toBe(stringify(value, { tables: false }))
+})
+
+test('stringifyIterable prepares items as they are written', () => {
+  const value = Array.from({ length: 10000 }, (_, i) => ({ id: i, data: { value: i, list: [ i, i + 1 ] } }))
+  let total = 0
+  JSON.stringify(value, (_, v) => (total++, v))
+  for (const options of [ { tables: false }, { tables: false, maxLineLength: 20 }, { indent: 0 } ]) {
+    let calls = 0
+    const chunks = stringifyIterable(value, { ...options, replace: (_, v) => (calls++, v) })
+    chunks.next()
+    expect(calls).toBeLessThan(total / 10)
+    chunks.return()
+  }
+})
+
+test('stringifyToStream waits for the stream to drain', async () => {
+  const listeners: Record<string, () => void> = {}
+  const written: string[] = []
+  const writable = {
+    write(chunk: string, callback?: () => void) {
+      written.push(chunk)
+      setTimeout(() => {
+        callback?.()
+        listeners.drain?.()
+      })
+      return false
+    },
+    once(event: string, listener: () => void) {
+      listeners[event] = listener
+    }
+  }
+  const value = Array.from({ length: 2000 }, (_, i) => ({ id: i, data: [ { value: i } ] }))
+  await stringifyToStream(value, writable, { tables: false })
+  expect(written.length).toBeGreaterThan(1)
+  expect(written.join('')).toBe(stringify(value, { tables: false }))
+})
+
+test('stringifyToStream rejects when the stream errors', async () => {
+  const error = new Error('Write failed')
+  const writable = {
+    write: () => false,
+    once(event: string, listener: (e?: unknown) => void) {
+      if (event === 'error') setTimeout(() => listener(error))
+    }
+  }
+  await expect(stringifyToStream({ a: 1 }, writable)).rejects.toBe(error)
+})
+
+test('stringifyToStream rejects when a write fails after it returned', async () => {
+  const error = new Error('Write failed')
+  // With a large buffer, every write returns true before any of them fail
+  const writable = new Writable({
+    highWaterMark: 1e9,
+    write: (chunk, encoding, callback) => setTimeout(() => callback(error))
+  })
+  const value = Array.from({ length: 2000 }, (_, i) => ({ id: i, data: [ { value: i } ] }))
+  await expect(stringifyToStream(value, writable, { tables: false })).rejects.toBe(error)
+})
+
+test('stringifyToStream rejects when the stream is closed', async () => {
+  const stalled = new Writable({ write: () => {} })
+  setTimeout(() => stalled.destroy())
+  const value = Array.from({ length: 2000 }, (_, i) => ({ id: i, data: [ { value: i } ] }))
+  await expect(stringifyToStream(value, stalled, { tables: false })).rejects.toThrow('The stream was closed before everything was written to it.')
+
+  const destroyed = new Writable({ write: (chunk, encoding, callback) => callback() })
+  destroyed.destroy()
+  await expect(stringifyToStream({ a: 1 }, destroyed)).rejects.toThrow('The stream was closed before everything was written to it.')
+})
+
+test('stringifyToStream resolves once everything is written', async () => {
+  let written = ''
+  const writable = new Writable({
+    write: (chunk, encoding, callback) => setTimeout(() => {
+      written += chunk
+      callback()
+    })
+  })
+  const value = Array.from({ length: 2000 }, (_, i) => ({ id: i, data: [ { value: i } ] }))
+  await stringifyToStream(value, writable)
+  expect(written).toBe(stringify(value))
+  expect(writable.listenerCount('error')).toBe(0)
+})
+
+test('stringifyLayout returns the layout tree', () => {
+  const value = {
+    name: 'test',
+    point: { x: 1, y: 2 },
+    rows: [ { id: 1, value: 1.5 }, { id: 2, value: 10 } ],
+    list: Array.from({ length: 20 }, (_, i) => i)
+  }
+  const tree = stringifyLayout(value)
+  expect(tree.type).toBe('MultilineObject')
+  if (tree.type !== 'MultilineObject') return
+  expect(tree.path.string).toBe('$')
+  expect(tree.value).toBe(value)
+  const [ name, point, rows, list ] = tree.properties.map(p => p.value)
+  expect(name).toMatchObject({ type: 'Scalar', text: '"test"', value: 'test' })
+  expect(point.type).toBe('InlineObject')
+  expect(point.path.string).toBe('$.point')
+
+  expect(rows.type).toBe('Table')
+  if (rows.type !== 'Table') return
+  expect(rows.columns).toEqual([
+    { key: 'id', width: 7, align: 1 },
+    { key: 'value', width: 13, align: 2 }
+  ])
+  expect(rows.rows.map(row => row.path.string)).toEqual([ '$.rows[0]', '$.rows[1]' ])
+  expect(rows.rows[1].cells.map(cell => cell.path.string)).toEqual([ '$.rows[1].id', '$.rows[1].value' ])
+
+  expect(list.type).toBe('CompactGrid')
+  if (list.type !== 'CompactGrid') return
+  expect(list.items).toHaveLength(20)
+  expect(list.items[3].path.segments).toEqual([ 'list', 3 ])
+
+  expect(renderLayout(tree)).toBe(stringify(value))
+  expect(stringifyLayout(undefined)).toBe(undefined)
+})
+
+test('renderLayout renders changed layout trees', () => {
+  const tree = stringifyLayout({ a: 1, b: [ 1, 2 ] }, { indent: 4 })
+  if (tree.type !== 'InlineObject') throw new Error('Expected an inline object')
+  const multiline = { ...tree, type: 'MultilineObject' as const, properties: tree.properties.toReversed() }
+  expect(renderLayout(multiline, { indent: 4 })).toBe(dedent`
+    {
+        "b": [ 1, 2 ],
+        "a": 1
+    }
+  `)
+  expect(renderLayout(multiline, { indent: 0 })).toBe('{"b":[1,2],"a":1}')
+})
+
+test('sourceMap', () => {
+  const value = {
+    name: 'test',
+    point: { x: 1, y: [ 2, 3 ] },
+    rows: [
+      { id: 1, value: 'one' },
+      { id: 22, value: [ 2, 2 ] }
+    ],
+    grid: [ [ 1, 2 ], [ 3, 4 ] ],
+    list: Array.from({ length: 20 }, (_, i) => i * 11)
+  }
+  for (const options of [ {}, { indent: 0 }, { prefixIndent: 2 } ]) {
+    const { text, sourceMap } = stringify(value, { ...options, sourceMap: true })
+    expect(text).toBe(stringify(value, options))
+    const lines = text.split('\n')
+    const slice = (path: string) => {
+      const { start, end } = sourceMap.get(path)
+      const startOffset = lines.slice(0, start.line - 1).join('\n').length + (start.line > 1 ? 1 : 0) + start.column - 1
+      const endOffset = lines.slice(0, end.line - 1).join('\n').length + (end.line > 1 ? 1 : 0) + end.column - 1
+      return text.slice(startOffset, endOffset)
+    }
+    expect(slice('$')).toBe(text)
+    expect(slice('$.name')).toBe('"test"')
+    expect(slice('$.point')).toBe(stringify(value.point, options))
+    expect(slice('$.point.y[1]')).toBe('3')
+    expect(slice('$.rows[0]')).toBe(options.indent === 0 ? '{"id":1,"value":"one"}' : '{ "id":  1, "value": "one"    }')
+    expect(slice('$.rows[1].id')).toBe('22')
+    expect(slice('$.rows[1].value')).toBe(stringify(value.rows[1].value, options))
+    expect(slice('$.rows[1].value[0]')).toBe('2')
+    expect(slice('$.grid[1]')).toBe(stringify(value.grid[1], options))
+    expect(slice('$.grid[1][0]')).toBe('3')
+    expect(slice('$.list[7]')).toBe('77')
+    expect(sourceMap.size).toBe(1 + 1 + 5 + 9 + 7 + 21)
+  }
+  expect(stringify(undefined, { sourceMap: true })).toBe(undefined)
+})
+
+test('sourceMap positions start at line 1 and column 1', () => {
+  const { sourceMap } = stringify({ a: [ 1, 2 ], b: { c: 'd' }, e: 'f'.repeat(100) }, { sourceMap: true })
+  expect(sourceMap.get('$')).toEqual({ start: { line: 1, column: 1 }, end: { line: 5, column: 2 } })
+  expect(sourceMap.get('$.a[1]')).toEqual({ start: { line: 2, column: 13 }, end: { line: 2, column: 14 } })
+  expect(sourceMap.get('$.b.c')).toEqual({ start: { line: 3, column: 15 }, end: { line: 3, column: 18 } })
+})
+
+test('previous keeps the layout of unchanged values', () => {
+  const value = {
+    rows: [ { id: 1, name: 'alpha' }, { id: 2, name: 'beta' } ],
+    list: Array.from({ length: 12 }, (_, i) => i * 7),
+    point: { x: 1, y: 2 }
+  }
+  const text = stringify(value)
+  expect(stringify(value, { previous: text })).toBe(text)
+  expect(stringify(value, { previous: stringifyLayout(value) })).toBe(text)
+})
+
+test('previous keeps table column widths', () => {
+  const previous = dedent`
+    [
+      { "id": 1, "name": "alpha", "score": 10.5  },
+      { "id": 2, "name": "beta",  "score":  3.25 }
+    ]
+  `
+  expect(stringify([
+    { id: 1, name: 'a', score: 10.5 },
+    { id: 2, name: 'beta', score: 3.25 }
+  ], { previous })).toBe(dedent`
+    [
+      { "id": 1, "name": "a",     "score": 10.5  },
+      { "id": 2, "name": "beta",  "score":  3.25 }
+    ]
+  `)
+  expect(stringify([
+    { id: 1, name: 'alpha', score: 100.125 },
+    { id: 2, name: 'b', score: 3.25 }
+  ], { previous })).toBe(dedent`
+    [
+      { "id": 1, "name": "alpha", "score": 100.125 },
+      { "id": 2, "name": "b",     "score":   3.25  }
+    ]
+  `)
+})
+
+test('previous keeps inline, multi-line, and compact layouts while they fit', () => {
+  const previous = dedent`
+    {
+      "a": {
+        "x": "a long string that no longer exists"
+      },
+      "b": { "p": { "c": 1 }, "q": { "c": 2 } },
+      "list": [
+        1, 2, 3, 4,
+        5, 6, 7, 8
+      ]
+    }
+  `
+  const value = {
+    a: { x: 'short' },
+    b: { p: { c: 1 }, q: { c: 20 } },
+    list: [ 1, 2, 3, 4000, 5, 6, 7, 8, 9 ]
+  }
+  expect(stringify(value, { previous })).toBe(dedent`
+    {
+      "a": {
+        "x": "short"
+      },
+      "b": { "p": { "c": 1 }, "q": { "c": 20 } },
+      "list": [
+        1, 2, 3, 4000,
+        5, 6, 7,    8,
+        9
+      ]
+    }
+  `)
+  expect([ ...stringifyIterable(value, { previous }) ].join('')).toBe(stringify(value, { previous }))
+})
+
+test('previous falls back to the usual layout when the previous one does not fit', () => {
+  const previous = '{ "a": [ 1, 2 ], "b": 1 }'
+  const value = { a: Array.from({ length: 8 }, (_, i) => 'item ' + i), b: 1 }
+  expect(stringify(value, { previous })).toBe(stringify(value))
+  expect(() => stringify(value, { previous: '{ "a": ' })).toThrow(JSONSyntaxError)
+  expect(() => stringify(value, { previous: 1 as any })).toThrow(`'previous' must be a string or a layout tree.`)
+})
+
+test('widthMode', () => {
+  const value = [
+    { name: '日本語', count: 1 },
+    { name: 'abc', count: 20 },
+    { name: '😀', count: 3 }
+  ]
+  expect(stringify(value, { widthMode: 'display' })).toBe(dedent`
+    [
+      { "name": "日本語", "count":  1 },
+      { "name": "abc",    "count": 20 },
+      { "name": "😀",     "count":  3 }
+    ]
+  `)
+  expect(stringify(value, { widthMode: 'codepoints' })).toBe(dedent`
+    [
+      { "name": "日本語", "count":  1 },
+      { "name": "abc", "count": 20 },
+      { "name": "😀",   "count":  3 }
+    ]
+  `)
+  expect(stringify(value)).toBe(dedent`
+    [
+      { "name": "日本語", "count":  1 },
+      { "name": "abc", "count": 20 },
+      { "name": "😀",  "count":  3 }
+    ]
+  `)
+  // The line is 31 code units long, but 41 columns wide
+  const wide = { a: '日'.repeat(10), b: 'x' }
+  expect(stringify(wide, { maxLineLength: 32 })).toBe('{ "a": "日日日日日日日日日日", "b": "x" }')
+  expect(stringify(wide, { maxLineLength: 32, widthMode: 'display' })).toBe(dedent`
+    {
+      "a": "日日日日日日日日日日",
+      "b": "x"
+    }
+  `)
+  expect(stringify(value, { widthMode: 'display', previous: stringify(value, { widthMode: 'display' }) }))
+    .toBe(stringify(value, { widthMode: 'display' }))
+  expect(() => stringify(value, { widthMode: 'bytes' as any })).toThrow(`'widthMode' must be 'utf16', 'codepoints', or 'display'.`)
+})
+
+test('widthMode with combining characters in compact long arrays', () => {
+  const e = 'ééé'
+  const value = Array.from({ length: 8 }, (_, i) => i % 2 === 0 ? e : 'abcde')
+  expect(stringify(value, { widthMode: 'display', maxLineLength: 25 })).toBe(dedent`
+    [
+      "${e}",   "abcde", "${e}",
+      "abcde", "${e}",   "abcde",
+      "${e}",   "abcde"
+    ]
+  `)
+  expect(stringify(value, { maxLineLength: 25 })).toBe(dedent`
+    [
+      "${e}", "abcde",
+      "${e}", "abcde",
+      "${e}", "abcde",
+      "${e}", "abcde"
+    ]
+  `)
+})
+
+test('escape', () => {
+  const value = [
+    { name: 'café', tag: '<b>' },
+    { name: 'tea', tag: '&' }
+  ]
+  expect(stringify(value, { escape: 'ascii' })).toBe(dedent`
+    [
+      { "name": "caf\u00e9", "tag": "<b>" },
+      { "name": "tea",       "tag": "&"   }
+    ]
+  `)
+  expect(stringify(value, { escape: 'html' })).toBe(dedent`
+    [
+      { "name": "caf\u00e9", "tag": "\u003cb\u003e" },
+      { "name": "tea",       "tag": "\u0026"        }
+    ]
+  `)
+  expect(stringify({ 'ключ': '</script>' }, { escape: 'html' })).toBe('{ "\\u043a\\u043b\\u044e\\u0447": "\\u003c/script\\u003e" }')
+  expect(stringify({ a: 'x/y' }, { escape: json => json.replaceAll('/', '\\/') })).toBe('{ "a": "x\\/y" }')
+  for (const escape of [ 'ascii', 'html' ] as const) {
+    const text = stringify(value, { escape })
+    expect(JSON.parse(text)).toEqual(value)
+    expect(stringify(value, { escape, previous: text })).toBe(text)
+  }
+})
+
+test('numbers', () => {
+  const rows = [
+    { x: 0.1 + 0.2, y: 10 },
+    { x: 12.3456, y: 1 / 3 },
+    { x: -0.0001, y: NaN }
+  ]
+  expect(stringify(rows, { numbers: { maxFractionDigits: 2, nonFinite: 'string' } })).toBe(dedent`
+    [
+      { "x":  0.3,  "y": 10    },
+      { "x": 12.35, "y": 0.33  },
+      { "x":  0,    "y": "NaN" }
+    ]
+  `)
+  expect(stringify([ 1500, 0.25, -2e-8 ], { numbers: { notation: 'exponent' } })).toBe('[ 1.5e+3, 2.5e-1, -2e-8 ]')
+  expect(stringify([ [ 1e21, 1 ], [ 1.5e21, 2 ] ])).toBe(dedent`
+    [
+      [ 1e+21,   1 ],
+      [ 1.5e+21, 2 ]
+    ]
+  `)
+  expect(() => stringify({ a: [ Infinity ] }, { numbers: { nonFinite: 'throw' } })).toThrow('Do not know how to serialize Infinity at $.a[0]')
+  expect(format('[ 0.30000000000000004, 1.10, 12345678901234567890 ]', { numbers: { maxSignificantDigits: 15 } }))
+    .toBe('[ 0.3, 1.10, 12345678901234600000 ]')
+  expect(format('[ 1.50, 12345678901234567890.123, -0.001 ]', { numbers: { maxFractionDigits: 2 } }))
+    .toBe('[ 1.50, 12345678901234567890.12, 0 ]')
+  expect(format('[ 1.10, 12345678901234567890 ]', { numbers: { notation: 'exponent' } }))
+    .toBe('[ 1.10, 12345678901234567890 ]')
+})
+
+test('decimalAlignment', () => {
+  const value = { values: [ 1000.5, 0.25, 12.5, 300.75, 4.5, 55.75, 6.5, 70.25, 800.5, 9.5, 10.25, 11.5 ] }
+  expect(stringify(value, { maxLineLength: 40 })).toBe(dedent`
+    {
+      "values": [
+        1000.5,  0.25, 12.5,  300.75,
+           4.5, 55.75,  6.5,   70.25,
+         800.5,  9.5,  10.25,  11.5
+      ]
+    }
+  `)
+  expect(stringify(value, { maxLineLength: 40, decimalAlignment: 'array' })).toBe(dedent`
+    {
+      "values": [
+        1000.5,     0.25,   12.5,   300.75,
+           4.5,    55.75,    6.5,    70.25,
+         800.5,     9.5,    10.25,   11.5
+      ]
+    }
+  `)
+  expect(stringify(value, { maxLineLength: 40, decimalAlignment: 'none' })).toBe(dedent`
+    {
+      "values": [
+        1000.5, 0.25,  12.5,  300.75,
+        4.5,    55.75, 6.5,   70.25,
+        800.5,  9.5,   10.25, 11.5
+      ]
+    }
+  `)
+  expect(stringify([ 1000.5, 0.25, -3 ], { maxArrayItems: 2, compactLongArrays: false })).toBe(dedent`
+    [
+      1000.5,
+         0.25,
+        -3
+    ]
+  `)
+  expect(stringify([ 1000.5, 0.25, '-3' ], { maxArrayItems: 2, compactLongArrays: false })).toBe(dedent`
+    [
+      1000.5,
+      0.25,
+      "-3"
+    ]
+  `)
+  expect(() => stringify(value, { decimalAlignment: 'left' as any })).toThrow(`'decimalAlignment' must be 'column', 'array', or 'none'.`)
+})
+
+test('decimalAlignment with previous and streaming', () => {
+  const value = Array.from({ length: 12 }, (_, i) => i % 3 === 0 ? i * 100.5 : i / 4)
+  for (const decimalAlignment of [ 'column', 'array' ] as const) {
+    const text = stringify(value, { maxLineLength: 40, decimalAlignment })
+    expect(stringify(value, { maxLineLength: 40, decimalAlignment, previous: text })).toBe(text)
+    expect(Array.from(stringifyIterable(value, { maxLineLength: 40, decimalAlignment })).join('')).toBe(text)
+  }
+  const list = [ 1.5, 20, 300.25 ]
+  expect(Array.from(stringifyIterable(list, { maxArrayItems: 2, compactLongArrays: false })).join(''))
+    .toBe(stringify(list, { maxArrayItems: 2, compactLongArrays: false }))
+})
+
+test('tableKeyOrder', () => {
+  const rows = [
+    { a: 1, b: 'x' },
+    { b: 'yy', a: 22, c: true },
+    { c: false, a: 3 }
+  ]
+  expect(stringify(rows)).toBe(dedent`
+    [
+      { "a": 1, "b": "x" },
+      { "b": "yy", "a": 22, "c": true },
+      { "c": false, "a": 3 }
+    ]
+  `)
+  expect(stringify(rows, { tableKeyOrder: 'first' })).toBe(dedent`
+    [
+      { "a":  1, "b": "x"              },
+      { "a": 22, "b": "yy", "c": true  },
+      { "a":  3,            "c": false }
+    ]
+  `)
+  expect(stringify(rows, { tableKeyOrder: (a, b) => b.localeCompare(a) })).toBe(dedent`
+    [
+      {             "b": "x",  "a":  1 },
+      { "c": true,  "b": "yy", "a": 22 },
+      { "c": false,            "a":  3 }
+    ]
+  `)
+  expect(stringify({ r1: { b: 1, a: 2 }, r2: { a: 3, b: 4 } }, { tableKeyOrder: 'union-sorted' })).toBe(dedent`
+    {
+      "r1": { "a": 2, "b": 1 },
+      "r2": { "a": 3, "b": 4 }
+    }
+  `)
+  // Rows that don't conflict keep their order
+  expect(stringify([ { b: 1, a: 2 }, { b: 3, a: 4 } ], { tableKeyOrder: 'union-sorted' })).toBe(dedent`
+    [
+      { "b": 1, "a": 2 },
+      { "b": 3, "a": 4 }
+    ]
+  `)
+  expect(() => stringify(rows, { tableKeyOrder: 'sorted' as any })).toThrow(`'tableKeyOrder' must be 'strict', 'first', 'union-sorted', or a function.`)
+})
+
+test('tableWrap', () => {
+  const rows = [
+    { id: 1, name: 'first', position: [ 1.5, 2, 3 ], color: 'red', visible: true, weight: 0.25 },
+    { id: 22, name: 'second', position: [ 10, 20, 30.5 ], color: 'green', visible: false },
+    { id: 3, name: 'third', position: [ 0, 0, 0 ], color: 'blue', visible: true, weight: 12 }
+  ]
+  const text = stringify({ rows }, { maxLineLength: 60, tableWrap: true })
+  expect(text).toBe(dedent`
+    {
+      "rows": [
+        { "id":  1, "name": "first",
+            "position": [  1.5,  2,  3   ], "color": "red",
+            "visible": true,  "weight":  0.25 },
+        { "id": 22, "name": "second",
+            "position": [ 10,   20, 30.5 ], "color": "green",
+            "visible": false                  },
+        { "id":  3, "name": "third",
+            "position": [  0,    0,  0   ], "color": "blue",
+            "visible": true,  "weight": 12    }
+      ]
+    }
+  `)
+  expect(stringify({ rows }, { maxLineLength: 60 })).not.toContain('"id":  1')
+  expect(stringify({ rows }, { maxLineLength: 60, tableWrap: true, tablePadEndOfRows: false })).toContain(dedent`
+    { "id": 22, "name": "second",
+            "position": [ 10,   20, 30.5 ], "color": "green",
+            "visible": false },
+  `)
+  const byName = Object.fromEntries(rows.map(row => [ row.name, row ]))
+  expect(stringify(byName, { maxLineLength: 60, tableWrap: true })).toBe(dedent`
+    {
+      "first":  { "id":  1, "name": "first",
+                    "position": [  1.5,  2,  3   ],
+                    "color": "red",   "visible": true,
+                    "weight":  0.25 },
+      "second": { "id": 22, "name": "second",
+                    "position": [ 10,   20, 30.5 ],
+                    "color": "green", "visible": false },
+      "third":  { "id":  3, "name": "third",
+                    "position": [  0,    0,  0   ],
+                    "color": "blue",  "visible": true,
+                    "weight": 12    }
+    }
+  `)
+  expect(stringify({ rows }, { maxLineLength: 60, tableWrap: true, previous: text })).toBe(text)
+  expect(Array.from(stringifyIterable({ rows }, { maxLineLength: 60, tableWrap: true })).join('')).toBe(text)
+})
+
+test('JSON5 syntax', () => {
+  const value = {
+    name: `it's`,
+    'not-an-id': Infinity,
+    rows: [ { id: 1, label: 'a' }, { id: 255, label: 'bb' } ],
+    byKey: { first: { x: 1 }, 'second one': { x: 30 } },
+    list: Array.from({ length: 8 }, (_, i) => i * 7),
+    empty: []
+  }
+  const text = stringify(value, { syntax: 'json5', maxArrayItems: 4, maxLineLength: 40 })
+  expect(text).toBe(dedent`
+    {
+      name: "it's",
+      "not-an-id": Infinity,
+      rows: [
+        { id:   1, label: "a"  },
+        { id: 255, label: "bb" },
+      ],
+      byKey: {
+        first:        { x:  1 },
+        "second one": { x: 30 },
+      },
+      list: [
+         0,  7, 14,
+        21, 28, 35,
+        42, 49,
+      ],
+      empty: [],
+    }
+  `)
+  expect(stringify(value, { syntax: 'json5', quoteStyle: 'single', numbers: { notation: 'hex' }, indent: 0 })).toBe(
+    `{name:'it\\'s','not-an-id':Infinity,rows:[{id:0x1,label:'a'},{id:0xff,label:'bb'}],byKey:{first:{x:0x1},'second one':{x:0x1e}},list:[0,0x7,0xe,0x15,0x1c,0x23,0x2a,0x31],empty:[]}`
+  )
+  expect(stringify(value, { syntax: 'json5', maxArrayItems: 4, maxLineLength: 40, previous: text })).toBe(text)
+  expect(Array.from(stringifyIterable(value, { syntax: 'json5', maxArrayItems: 4, maxLineLength: 40 })).join('')).toBe(text)
+  expect(stringify([ NaN ], { syntax: 'json5', numbers: { nonFinite: 'null' } })).toBe('[ null ]')
+  expect(() => stringify(1, { syntax: 'yaml' as any })).toThrow(`'syntax' must be 'json' or 'json5'.`)
+})
+
+test('annotate', () => {
+  const value = {
+    version: 2,
+    servers: [ { host: 'a', port: 80 }, { host: 'bb', port: 8080, tls: true } ],
+    tags: [ 'x', 'y' ],
+    limits: { cpu: 1, memory: 512 }
+  }
+  const annotate = (path: ValuePath, key: string, value: unknown) =>
+    key === 'version' ? 'The format version\nof the file' :
+    path.toString() === '$.servers[0]' ? { after: 'production' } :
+    key === 'tags' ? { before: 'Tags', after: 'unsorted' } :
+    key === 'memory' ? { after: `${value} MB` } :
+    undefined
+  const text = stringify(value, { annotate })
+  expect(text).toBe(dedent`
+    {
+      // The format version
+      // of the file
+      "version": 2,
+      "servers": [
+        { "host": "a",  "port":   80              }, // production
+        { "host": "bb", "port": 8080, "tls": true }
+      ],
+      // Tags
+      "tags": [ "x", "y" ], // unsorted
+      "limits": {
+        "cpu": 1,
+        "memory": 512 // 512 MB
+      }
+    }
+  `)
+  expect(Array.from(stringifyIterable(value, { annotate })).join('')).toBe(text)
+  expect(stringify(value, { annotate, indent: 0 })).toBe(JSON.stringify(value))
+  expect(stringify([ { a: { b: 1 } }, { a: { b: 2 } } ], { annotate: (_, key) => key === 'b' ? 'b' : undefined })).toBe(dedent`
+    [
+      {
+        "a": {
+          // b
+          "b": 1
+        }
+      },
+      {
+        "a": {
+          // b
+          "b": 2
+        }
+      }
+    ]
+  `)
+  expect(format('{ "a": 1, // kept\n "b": 2 }', { jsonc: true, annotate: (path, key) => path.string === '$' ? undefined : { after: key } })).toBe(dedent`
+    {
+      "a": 1, // kept // a
+      "b": 2 // b
+    }
+  `)
+  expect(() => stringify({ a: 1 }, { annotate: 'a' as any })).toThrow(`'annotate' must be a function.`)
+  expect(() => stringify({ a: 1 }, { annotate: () => 1 as any })).toThrow(`'annotate' must return a string, an object, or undefined.`)
+  const paths: string[] = []
+  stringify({ a: 1 }, { annotate: path => void paths.push(path.string) })
+  expect(paths).toEqual([ '$', '$.a' ])
+  expect(() => stringify({ a: 1 }, { annotate: (_, key) => key === '' ? 'root' : undefined })).toThrow(`'annotate' can't add comments to the root value.`)
+  expect(() => Array.from(stringifyIterable(1, { annotate: () => ({ after: 'root' }) }))).toThrow(`'annotate' can't add comments to the root value.`)
+  expect(stringify(1, { annotate: () => 'root', indent: 0 })).toBe('1')
+  const prototypeKeys = JSON.parse('{ "toString": 1, "__proto__": 2, "b": 3, "c": 4 }')
+  expect(stringify(prototypeKeys, { annotate: (_, key) => key === '__proto__' ? { before: 'a', after: 'b' } : key === 'c' ? 'c' : undefined })).toBe(dedent`
+    {
+      "toString": 1,
+      // a
+      "__proto__": 2, // b
+      "b": 3,
+      // c
+      "c": 4
+    }
+  `)
+})
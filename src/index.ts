@@ -1,15 +1,47 @@
+import type { Codec } from './codecs.js'
+import { highlight, type HighlightOptions } from './highlight.js'
+import { containsComments, getComments, NumberLiteral, parseDocument, type ContainerComments, type ItemComments } from './parse.js'
+import { matchSelector, parseSelector, ValuePath } from './path.js'
+import { indexLayout, parseLayout } from './stable.js'
+import { getWidthFunction, type WidthMode } from './width.js'
+import { getQuoteFunction, type EscapeMode } from './escape.js'
+import { getNumberFormatter, roundLiteral, type NumberOptions } from './numbers.js'
+import { getJSON5KeyFunction, getJSON5QuoteFunction, type QuoteStyle } from './json5.js'
+import {
+  createRenderer,
+  isSingleLine,
+  numberDecimalIndex,
+  reindentComment,
+  type InlineArrayNode,
+  type InlineObjectNode,
+  type LayoutComments,
+  type LayoutNode,
+  type LayoutProperty,
+  type Renderer,
+  type ScalarNode,
+  type SourceRange,
+  type TableColumn,
+  type TableNode,
+  type TableRow
+} from './render.js'
+
 export type StringifyOptions = {
   /**
    * Replacer function that works just like the one in JSON.stringify.
    * 
-   * This only acts as the replacer ***function***, not the array of property
-   * names that JSON.stringify also accepts.
+   * Like in JSON.stringify, this can also be an array of the property names
+   * to write, which applies to all objects, including the rows of tables.
+   * Numbers in it are converted to strings, and the properties are written in
+   * the order of the array.
    * @param this The parent object or array of the value.
    * @param key The name of the property it is a value of.
    * @param value A value in the JSON structure.
+   * @param path The location of the value in the JSON structure.
+   * @param context More about where the value is, see {@link ValueContext}.
+   * It is called exactly once for each value, before the layout is decided.
    * @returns A new value to replace the original in the JSON.
    */
-  replace?: (this: any, key: string, value: any) => any
+  replace?: ((this: any, key: string, value: any, path: ValuePath, context: ValueContext) => any) | (string | number)[]
   /**
    * Either the string to use as the indent, or the number of spaces to use as
    * it.
@@ -32,10 +64,14 @@ export type StringifyOptions = {
    * @param this The parent object or array of the value.
    * @param key The name of the property it is a value of.
    * @param value An array or object in the JSON structure.
+   * @param path The location of the value in the JSON structure.
+   * @param context More about where the value is, see {@link ValueContext}.
+   * It is called at most once for each value on its own, and once for it as
+   * a table cell.
    * @returns `true` if the array or object is allowed to be inlined,
    * `false` otherwise.
    */
-  allowInline?: (this: any, key: string, value: any) => boolean
+  allowInline?: (this: any, key: string, value: any, path: ValuePath, context: ValueContext) => boolean
   /**
    * The maximum total length of a line, **not including indentation**.
    * 
@@ -77,10 +113,13 @@ export type StringifyOptions = {
    * @param this The parent object or array of the value.
    * @param key The name of the property it is a value of.
    * @param value An array or object in the JSON structure.
+   * @param path The location of the value in the JSON structure.
+   * @param context More about where the value is, see {@link ValueContext}.
+   * It is called at most once for each value.
    * @returns `true` if the array or object is allowed to be formatted as a
    * table, `false` otherwise.
    */
-  allowTable?: (this: any, key: string, value: any) => boolean
+  allowTable?: (this: any, key: string, value: any, path: ValuePath, context: ValueContext) => boolean
   /**
    * Controls if arrays and objects should be formatted like tables if the
    * structure of their contents allow it.
@@ -114,6 +153,27 @@ export type StringifyOptions = {
    * Defaults to `1`.
    */
   tableMinSharedKeys?: number
+  /**
+   * Controls what happens when the objects in a table list their keys in
+   * orders that conflict, like `{ "a": 1, "b": 2 }` and `{ "b": 3, "a": 4 }`.
+   * 
+   * - `'strict'` doesn't format them as a table.
+   * - `'first'` orders the columns like the keys of the first object, and
+   *   then the keys that are missing from it in the order they're found in
+   *   the other objects.
+   * - `'union-sorted'` sorts the columns by their keys, like
+   *   {@link StringifyOptions.sortKeys sortKeys} does.
+   * - A comparator function sorts the columns like `Array.prototype.sort`
+   *   would with it.
+   * 
+   * The properties of each row are written in the order of the columns, so
+   * the keys of the objects in the output can be in a different order than
+   * in the input. Tables where the orders don't conflict are the same in
+   * every mode.
+   * 
+   * Defaults to `'strict'`.
+   */
+  tableKeyOrder?: 'strict' | 'first' | 'union-sorted' | ((a: string, b: string) => number)
   /**
    * Controls if the ends of rows in a table should be padded such that the
    * closing brackets all line up or not. If disabled, the closing brackets
@@ -122,6 +182,17 @@ export type StringifyOptions = {
    * Defaults to `true`.
    */
   tablePadEndOfRows?: boolean
+  /**
+   * Splits the rows of tables that are longer than
+   * {@link StringifyOptions.maxLineLength maxLineLength} into multiple lines,
+   * instead of not formatting them as tables. The columns that don't fit
+   * continue on the next line, indented one level further than the first
+   * column, and every row is split at the same columns so that they stay
+   * aligned.
+   * 
+   * Defaults to `false`.
+   */
+  tableWrap?: boolean
   /**
    * Align numbers in tables such that the decimal point is always in the same
    * column. This makes it easier to see the difference between large numbers
@@ -130,6 +201,442 @@ export type StringifyOptions = {
    * Defaults to `true`.
    */
   tableDecimalAlignment?: boolean
+  /**
+   * Align numbers in compact long arrays and multi-line arrays such that the
+   * decimal point is always in the same column, like
+   * {@link StringifyOptions.tableDecimalAlignment tableDecimalAlignment}
+   * does for tables. Arrays are only aligned if all of their items are
+   * numbers.
+   * 
+   * - `'column'` aligns each column of compact long arrays separately.
+   * - `'array'` aligns all the items of compact long arrays, so that all of
+   *   their columns are the same width.
+   * - `'none'` doesn't align the items.
+   * 
+   * Defaults to `'column'`.
+   */
+  decimalAlignment?: 'column' | 'array' | 'none'
+  /**
+   * Controls what happens when a circular reference is found, meaning an
+   * array or object that contains itself.
+   * 
+   * - `'throw'` throws a {@link CircularReferenceError}.
+   * - `'ref'` replaces the reference with `{ "$ref": path }`, where `path`
+   *   is the JSON path of the array or object it refers to, like `$.nodes[3]`.
+   * - A function can be used to replace the reference with a placeholder. It
+   *   is given the JSON path of the reference and the path of the array or
+   *   object it refers to, and the value it returns is used instead.
+   * 
+   * Defaults to `'throw'`.
+   */
+  onCircular?: 'throw' | 'ref' | ((path: string, targetPath: string) => any)
+  /**
+   * Controls how bigints are converted to JSON.
+   * 
+   * - `'number'` writes the digits as a number, like `12345678901234567890`.
+   *   These count as numbers for
+   *   {@link StringifyOptions.tableDecimalAlignment tableDecimalAlignment}.
+   * - `'string'` writes the digits as a string, like `"12345678901234567890"`.
+   * - `'throw'` throws a `TypeError`, like `JSON.stringify` does.
+   * 
+   * Defaults to `'throw'`.
+   */
+  bigint?: 'number' | 'string' | 'throw'
+  /**
+   * A list of codecs that convert values of specific types, like Maps or
+   * custom classes, to something that can be converted to JSON. The first
+   * codec that accepts a value is used, and it is used before the value's
+   * `toJSON` method.
+   * 
+   * Built-in codecs for Maps, Sets, Dates, typed arrays, and binary data are
+   * available as {@link mapCodec}, {@link setCodec}, {@link dateCodec},
+   * {@link typedArrayCodec}, and {@link bufferCodec}, or all together with
+   * {@link builtinCodecs}.
+   * 
+   * Defaults to `[]`.
+   */
+  codecs?: Codec[]
+  /**
+   * Sorts the keys of objects, which makes the output deterministic. This also
+   * applies to the columns of tables.
+   * 
+   * - `true` sorts the keys by their UTF-16 code units, like the default
+   *   `Array.prototype.sort`.
+   * - A comparator function sorts the keys like `Array.prototype.sort` would
+   *   with it.
+   * - `{ order }` calls the `order` function for each object with the
+   *   location of the object and its keys, and uses the returned array as the
+   *   key order. Keys that are missing from the returned array are placed after
+   *   the others in their original order. Tables are only formatted if the
+   *   orders of the rows are compatible.
+   * 
+   * Defaults to `false`.
+   */
+  sortKeys?: boolean | ((a: string, b: string) => number) | {
+    order: (path: ValuePath, keys: string[]) => string[]
+  }
+  /**
+   * Options that only apply to parts of the JSON structure. Each override has
+   * a path selector, or a list of them, and the options to use for the values
+   * that match it and everything inside them. If multiple overrides match,
+   * the ones later in the list take precedence.
+   * 
+   * Selectors are JSON paths like `$.metadata` or `$.layers[0]["key name"]`
+   * that can contain wildcards:
+   * - `*` or `[*]` matches any single key or index, like `$.layers[*].keyframes`.
+   * - `*` inside a key, like `$.layer*`, matches any characters.
+   * - `**` matches any number of keys or indices, like `$.**.keyframes`.
+   * 
+   * ```js
+   * stringify(value, {
+   *   overrides: [
+   *     { path: '$.metadata', options: { maxLineLength: 0 } },
+   *     { path: '$.layers[*].keyframes', options: { tables: false } }
+   *   ]
+   * })
+   * ```
+   * 
+   * Defaults to `[]`.
+   */
+  overrides?: {
+    path: string | string[]
+    options: LayoutOptions
+  }[]
+  /**
+   * Makes {@link stringify} return an object with the JSON string as `text`
+   * and a `sourceMap` that maps the path of every value, like `$.nodes[3]`,
+   * to where the value is in the string. This includes the values in table
+   * rows and compact long arrays.
+   * 
+   * ```js
+   * const { text, sourceMap } = stringify(value, { sourceMap: true })
+   * const { start, end } = sourceMap.get('$.nodes[3]')
+   * ```
+   * 
+   * The other functions ignore this option.
+   * 
+   * Defaults to `false`.
+   */
+  sourceMap?: boolean
+  /**
+   * The previous output for the same value, either as text or as a layout
+   * tree from {@link stringifyLayout}. Arrays and objects keep the layout
+   * they had in it, as long as it still fits the other options, and tables
+   * and compact long arrays keep their column widths unless a value no longer
+   * fits in them. This keeps diffs small when the value changes a little,
+   * since a changed value doesn't cause the whole table around it to be
+   * rewritten.
+   * 
+   * Arrays and objects that weren't in the previous output, or whose
+   * previous layout no longer fits, are laid out as usual. Comments in
+   * previous text are ignored, and it can be JSON5 like the output of
+   * {@link StringifyOptions.syntax syntax}.
+   * 
+   * ```js
+   * const text = stringify(value, { previous: await readFile(path, 'utf-8') })
+   * ```
+   * 
+   * Defaults to `undefined`.
+   */
+  previous?: string | LayoutNode
+  /**
+   * How the width of text is measured for
+   * {@link StringifyOptions.maxLineLength maxLineLength} and the other
+   * length limits, and for aligning the columns of tables and compact long
+   * arrays. See {@link WidthMode}.
+   * 
+   * Use `'display'` if the output contains characters like CJK ideographs or
+   * emoji and is viewed in a terminal or an editor with a monospace font, so
+   * that the columns line up there.
+   * 
+   * Defaults to `'utf16'`.
+   */
+  widthMode?: WidthMode
+  /**
+   * How strings and keys are escaped. See {@link EscapeMode}.
+   * 
+   * - `'json'` only escapes what JSON requires, like `JSON.stringify`.
+   * - `'ascii'` writes every character outside of ASCII as `\uXXXX`, for
+   *   systems that only accept ASCII.
+   * - `'html'` also escapes `<`, `>`, and `&`, so that the output can be
+   *   embedded in a `<script>` element.
+   * - A function is given the JSON string literal of each string and key,
+   *   and returns the text to write instead.
+   * 
+   * The widths of tables and the line lengths are measured on the escaped
+   * text.
+   * 
+   * Defaults to `'json'`.
+   */
+  escape?: EscapeMode
+  /**
+   * Controls how numbers are written, see {@link NumberOptions}. Numbers can
+   * be rounded to a number of fraction digits or significant digits, written
+   * with or without exponent notation, and `NaN`, `Infinity`, and `-0` can be
+   * written as strings or throw an error.
+   * 
+   * Numbers are rounded before they are aligned in tables, and written with
+   * the fewest digits that read back as the rounded number, so
+   * `{ maxFractionDigits: 2 }` writes `0.30000000000000004` as `0.3` and `2`
+   * as `2`. {@link NumberLiteral} values are rounded on their text, so no
+   * precision is lost, and they are only changed if rounding changes their
+   * value, so `1.50` is kept as it is with `{ maxFractionDigits: 2 }`.
+   * 
+   * Defaults to `{}`, which writes numbers like `JSON.stringify` does.
+   */
+  numbers?: NumberOptions
+  /**
+   * The syntax of the output.
+   * 
+   * - `'json'` writes JSON.
+   * - `'json5'` writes JSON5, which leaves keys that are valid identifiers
+   *   unquoted, adds a comma after the last item of arrays and objects on
+   *   multiple lines, and writes `NaN` and `Infinity` as they are. Strings
+   *   can use single quotes with
+   *   {@link StringifyOptions.quoteStyle quoteStyle}, and numbers can be
+   *   written in hexadecimal with {@link NumberOptions.notation}.
+   * 
+   * The widths of tables and the line lengths are measured on the JSON5
+   * text, so unquoted keys make the columns narrower.
+   * 
+   * Defaults to `'json'`.
+   */
+  syntax?: 'json' | 'json5'
+  /**
+   * Which quotes strings and keys are written with in JSON5 output, see
+   * {@link QuoteStyle}. JSON output always uses double quotes.
+   * 
+   * Defaults to `'double'`.
+   */
+  quoteStyle?: QuoteStyle
+  /**
+   * A function that adds comments to the output, which makes it JSONC (or
+   * JSON5). It is called for each property and array item with its path, its
+   * key, and its value after replacing, and returns the comment.
+   * 
+   * - A string is written as `// ...` comments on the lines before the item,
+   *   one for each line of the string.
+   * - `{ before, after }` can also write a comment after the item, on the
+   *   same line. In tables, these are aligned in a column after the rows.
+   * - `undefined` adds no comment.
+   * 
+   * Arrays and objects that contain comments are never inlined, and only
+   * formatted as tables if the comments are on the rows themselves. Comments
+   * are left out of minified output.
+   * 
+   * It is also called for the root value, with the path `$` and the key
+   * `''`. Comments can't be put on it, so returning one throws.
+   * @param path The location of the value in the JSON structure.
+   * @param key The name of the property, or the index of the array item.
+   * @param value The value of the property or array item.
+   * @returns The comment to add, if any.
+   */
+  annotate?: (path: ValuePath, key: string, value: unknown) => Annotation | undefined
+}
+
+/**
+ * A comment returned by {@link StringifyOptions.annotate annotate}. A string
+ * is the same as `{ before: string }`.
+ */
+export type Annotation = string | {
+  /**
+   * The comment on the lines before the item.
+   */
+  before?: string
+  /**
+   * The comment after the item on the same line.
+   */
+  after?: string
+}
+
+/**
+ * Where a value is in the JSON structure, given to
+ * {@link StringifyOptions.replace replace},
+ * {@link StringifyOptions.allowInline allowInline}, and
+ * {@link StringifyOptions.allowTable allowTable}.
+ */
+export type ValueContext = {
+  /**
+   * The location of the value, the same as the `path` argument.
+   */
+  path: ValuePath
+  /**
+   * How many arrays and objects the value is in. The root value is at depth
+   * `0`.
+   */
+  depth: number
+  /**
+   * The array or object that the value is in, the same as `this`. For the
+   * root value, this is an object with the value as its `''` property, like
+   * in JSON.stringify.
+   */
+  parent: any
+  /**
+   * Whether the value is being considered as a cell of a table, where it is
+   * inlined if it can be. Always `false` for `replace` and `allowTable`.
+   */
+  tableCell: boolean
+  /**
+   * The estimated width of the value written on a single line, without its
+   * key. `undefined` for `replace`, which is called before anything is
+   * measured.
+   */
+  inlineWidth: number | undefined
+}
+
+/**
+ * The replacer argument of `JSON.stringify`, for calling {@link stringify}
+ * like it.
+ */
+export type Replacer = ((this: any, key: string, value: any) => any) | (string | number)[]
+
+const layoutOptionNames = [
+  'maxLineLength',
+  'maxArrayItems',
+  'maxObjectProperties',
+  'maxArrayItemLength',
+  'compactLongArrays',
+  'tables',
+  'tableArrays',
+  'tableObjects',
+  'tableMinSharedKeys',
+  'tableKeyOrder',
+  'tablePadEndOfRows',
+  'tableWrap',
+  'tableDecimalAlignment',
+  'decimalAlignment',
+] as const
+
+/**
+ * The options that can be changed for parts of the JSON structure using
+ * {@link StringifyOptions.overrides overrides}.
+ */
+export type LayoutOptions = Pick<StringifyOptions, typeof layoutOptionNames[number]>
+
+/**
+ * The layout options with the defaults filled in.
+ */
+type Layout = {
+  options: LayoutOptions
+  maxLineLength: number
+  maxArrayItems: number
+  maxObjectProperties: number
+  maxArrayItemLength: number
+  compactLongArrays: boolean
+  tableArrays: boolean
+  tableObjects: boolean
+  tableMinSharedKeys: number
+  tableKeyOrder: 'strict' | 'first' | 'union-sorted' | ((a: string, b: string) => number)
+  tablePadEndOfRows: boolean
+  tableWrap: boolean
+  tableDecimalAlignment: boolean
+  decimalAlignment: 'column' | 'array' | 'none'
+}
+
+function createLayout(options: LayoutOptions, minify: boolean): Layout {
+  const maxLineLength = options.maxLineLength ?? 100
+  const tables = (options.tables ?? true) && !minify
+  const decimalAlignment = options.decimalAlignment ?? 'column'
+  if (decimalAlignment !== 'column' && decimalAlignment !== 'array' && decimalAlignment !== 'none') {
+    throw new Error(`'decimalAlignment' must be 'column', 'array', or 'none'.`)
+  }
+  const tableKeyOrder = options.tableKeyOrder ?? 'strict'
+  if (
+    tableKeyOrder !== 'strict' &&
+    tableKeyOrder !== 'first' &&
+    tableKeyOrder !== 'union-sorted' &&
+    typeof tableKeyOrder !== 'function'
+  ) {
+    throw new Error(`'tableKeyOrder' must be 'strict', 'first', 'union-sorted', or a function.`)
+  }
+  return {
+    options,
+    maxLineLength,
+    maxArrayItems: options.maxArrayItems ?? 6,
+    maxObjectProperties: options.maxObjectProperties ?? 6,
+    maxArrayItemLength: options.maxArrayItemLength ?? maxLineLength / 2,
+    compactLongArrays: options.compactLongArrays ?? true,
+    tableArrays: tables && (options.tableArrays ?? true),
+    tableObjects: tables && (options.tableObjects ?? true),
+    tableMinSharedKeys: options.tableMinSharedKeys ?? 1,
+    tableKeyOrder,
+    tablePadEndOfRows: options.tablePadEndOfRows ?? true,
+    tableWrap: options.tableWrap ?? false,
+    tableDecimalAlignment: options.tableDecimalAlignment ?? true,
+    decimalAlignment,
+  }
+}
+
+function mergeLayoutOptions(base: LayoutOptions, override: LayoutOptions): LayoutOptions {
+  const merged = { ...base }
+  for (const name of layoutOptionNames) {
+    if (override[name] !== undefined) merged[name] = override[name] as never
+  }
+  return merged
+}
+
+/**
+ * Thrown by {@link stringify} when the value contains a circular reference,
+ * unless {@link StringifyOptions.onCircular onCircular} is used to replace
+ * them.
+ */
+export class CircularReferenceError extends TypeError {
+  /**
+   * The JSON path of the circular reference, like `$.nodes[3].parent`.
+   */
+  readonly path: string
+  /**
+   * The JSON path of the array or object that the reference points to, which
+   * is always an ancestor of the reference.
+   */
+  readonly targetPath: string
+
+  constructor(path: string, targetPath: string) {
+    super(`Converting circular structure to JSON: ${path} refers to ${targetPath}`)
+    this.name = 'CircularReferenceError'
+    this.path = path
+    this.targetPath = targetPath
+  }
+}
+
+/**
+ * What {@link stringify} returns when the
+ * {@link StringifyOptions.sourceMap sourceMap} option is set.
+ */
+export type StringifyResult = {
+  /**
+   * The JSON string.
+   */
+  text: string
+  /**
+   * The location of each value in the string by the path of the value.
+   */
+  sourceMap: Map<string, SourceRange>
+}
+
+export type FormatOptions = Omit<StringifyOptions, 'sourceMap'> & {
+  /**
+   * Allow `//` and `/* *\/` comments and trailing commas in the input, like in
+   * JSONC files such as tsconfig.json. The comments are kept in the output.
+   * 
+   * Comments can't be kept if {@link StringifyOptions.indent indent} is set
+   * to an empty string or `0`.
+   * 
+   * Defaults to `false`.
+   */
+  jsonc?: boolean
+  /**
+   * Allow JSON5 input, with comments, trailing commas, keys that aren't
+   * quoted, strings in single quotes, and numbers like `0xff` and
+   * `Infinity`. Comments are kept like with {@link FormatOptions.jsonc jsonc}.
+   * Numbers that aren't valid JSON are written like other numbers, so `.5`
+   * becomes `0.5`.
+   * 
+   * Defaults to `true` when the output {@link StringifyOptions.syntax syntax}
+   * is `'json5'`, so that the output can be formatted again, and `false`
+   * otherwise.
+   */
+  json5?: boolean
 }
 
 /**
@@ -137,44 +644,111 @@ export type StringifyOptions = {
  * but with more options and defaults tuned to produce results that are easier
  * to read for humans.
  * 
+ * It can also be called like `JSON.stringify`, with a replacer function or
+ * array and a `space` argument that is limited to 10 characters in the same
+ * way. This is the case when the second argument is a function, an array, or
+ * `null`, or when there is a third argument. Then without `space`, the result
+ * is the same as `JSON.stringify`, and with it the result is formatted with
+ * the default options. Without a second argument, or with `undefined`, the
+ * default options are used, so the result is formatted.
+ * 
  * @param value - The value to convert to a JSON string.
  * @param options - An optional object containing formatting options.
- * @returns The formatted JSON string representation of the value.
+ * @returns The formatted JSON string representation of the value, or a
+ * {@link StringifyResult} if {@link StringifyOptions.sourceMap sourceMap} is
+ * set.
  */
+function stringify(value: undefined | Function, options: StringifyOptions & { sourceMap: true }): undefined
+function stringify(value: Exclude<unknown, undefined | Function>, options: StringifyOptions & { sourceMap: true }): StringifyResult
 function stringify(value: undefined | Function, options?: StringifyOptions): undefined
 function stringify(value: Exclude<unknown, undefined | Function>, options?: StringifyOptions): string
-function stringify(value: any, options?: StringifyOptions): string | undefined {
-  const maxLineLength = options?.maxLineLength ?? 100
-  const maxArrayItems = options?.maxArrayItems ?? 6
-  const maxObjectProperties = options?.maxObjectProperties ?? 6
-  const maxArrayItemLength = options?.maxArrayItemLength ?? maxLineLength / 2
-  const compactLongArrays = options?.compactLongArrays ?? true
-
-  const tables = options?.tables ?? true
-  const tableArrays = tables && (options?.tableArrays ?? true)
-  const tableObjects = tables && (options?.tableObjects ?? true)
-  const tableMinSharedKeys = options?.tableMinSharedKeys ?? 1
-  const tablePadEndOfRows = options?.tablePadEndOfRows ?? true
-  const tableDecimalAlignment = options?.tableDecimalAlignment ?? true
-
-  const indent =
-    options?.indent === null ? '' :
-    typeof options?.indent === 'number' ? ' '.repeat(Math.max(0, Math.min(10, options.indent))) :
-    typeof options?.indent === 'string' ? options.indent.slice(0, 10) :
-    '  '
-  if (indent.length === 0) {
-    return JSON.stringify(value, options?.replace)
+function stringify(value: undefined | Function, replacer: Replacer | null | undefined, space?: string | number): undefined
+function stringify(value: Exclude<unknown, undefined | Function>, replacer: Replacer | null | undefined, space?: string | number): string
+function stringify(
+  value: any,
+  options?: StringifyOptions | Replacer | null,
+  space?: string | number
+): string | StringifyResult | undefined {
+  if (typeof options === 'function' || Array.isArray(options) || options === null || arguments.length > 2) {
+    options = getCompatOptions(options, space)
   }
+  if (!options?.sourceMap) return createSerializer(options, false).write(value)
+  const serializer = createSerializer(options, true)
+  const node = serializer.layout(value)
+  return node === undefined ? undefined : serializer.renderer.renderWithSourceMap(node)
+}
 
-  const prefixIndent =
-    typeof options === 'object' && 'prefixIndent' in options ?
-      typeof options.prefixIndent === 'number' ? ' '.repeat(Math.max(0, options.prefixIndent)) :
-      typeof options.prefixIndent === 'string' ? options.prefixIndent :
-      '' :
-    ''
+/**
+ * Decides the layout of a value like {@link stringify} does, but returns it
+ * as a tree of layout nodes instead of a string. Each node has the path and
+ * the value it was made from. The tree can be inspected or changed, and then
+ * turned into a string with {@link renderLayout}.
+ * 
+ * @param value - The value to lay out.
+ * @param options - An optional object containing formatting options.
+ * @returns The root node of the layout tree, or `undefined` if
+ * {@link stringify} would return `undefined`.
+ */
+function stringifyLayout(value: any, options?: StringifyOptions): LayoutNode | undefined {
+  return createSerializer(options, true).layout(value)
+}
+
+/**
+ * Turns a layout tree from {@link stringifyLayout} into a string. Rendering
+ * the tree without changing it gives the same result as {@link stringify}
+ * with the same options.
+ * 
+ * @param node - The root node of the layout tree.
+ * @param options - An optional object containing the indentation options.
+ * The other options are only used when deciding the layout.
+ * @returns The JSON string.
+ */
+function renderLayout(
+  node: LayoutNode,
+  options?: Pick<StringifyOptions, 'indent' | 'prefixIndent' | 'widthMode' | 'escape' | 'syntax' | 'quoteStyle'>
+): string {
+  const { quoteKey, json5 } = getQuoteFunctions(options)
+  return createRenderer(
+    getIndent(options),
+    getPrefixIndent(options),
+    getWidthFunction(options?.widthMode ?? 'utf16'),
+    quoteKey,
+    json5
+  ).render(node)
+}
+
+/**
+ * Sets up the functions used by {@link stringify} and the streaming
+ * functions for the given options.
+ *
+ * @param scalarPaths - Whether the nodes of numbers, strings, and other
+ * values that aren't arrays or objects need their paths, like for source
+ * maps. They are also made when the options use them.
+ */
+function createSerializer(options: StringifyOptions | undefined, scalarPaths: boolean): {
+  layout: (value: any) => LayoutNode | undefined
+  write: (value: any) => string | undefined
+  stream: (value: any) => Generator<string>
+  renderer: Renderer
+} {
+  const indent = getIndent(options)
+  const minify = indent.length === 0
+  const keySeparator = minify ? ':' : ': '
+  const prefixIndent = getPrefixIndent(options)
+  const width = getWidthFunction(options?.widthMode ?? 'utf16')
+  const { quote, quoteKey, json5 } = getQuoteFunctions(options)
+  const trailingCommas = json5 && !minify
+  const formatNumber = getNumberFormatter(options?.numbers, quote, json5)
+  const renderer = createRenderer(indent, prefixIndent, width, quoteKey, trailingCommas)
 
-  if (options && 'replace' in options && typeof options.replace !== 'function') {
-    throw new Error(`'replace' must be a function.`)
+  const rootLayout = createLayout(mergeLayoutOptions({}, options ?? {}), minify)
+  const overrides = (options?.overrides ?? []).map(o => ({
+    selectors: (Array.isArray(o.path) ? o.path : [ o.path ]).map(parseSelector),
+    options: o.options
+  }))
+
+  if (options && 'replace' in options && typeof options.replace !== 'function' && !Array.isArray(options.replace)) {
+    throw new Error(`'replace' must be a function or an array.`)
   }
   if (options && 'allowInline' in options && typeof options.allowInline !== 'function') {
     throw new Error(`'allowInline' must be a function.`)
@@ -182,365 +756,2251 @@ function stringify(value: any, options?: StringifyOptions): string | undefined {
   if (options && 'allowTable' in options && typeof options.allowTable !== 'function') {
     throw new Error(`'allowTable' must be a function.`)
   }
-  const replaceFunc = options?.replace
+  if (options && 'annotate' in options && typeof options.annotate !== 'function') {
+    throw new Error(`'annotate' must be a function.`)
+  }
+  const onCircular = options?.onCircular ?? 'throw'
+  if (onCircular !== 'throw' && onCircular !== 'ref' && typeof onCircular !== 'function') {
+    throw new Error(`'onCircular' must be 'throw', 'ref', or a function.`)
+  }
+  const bigintMode = options?.bigint ?? 'throw'
+  if (bigintMode !== 'number' && bigintMode !== 'string' && bigintMode !== 'throw') {
+    throw new Error(`'bigint' must be 'number', 'string', or 'throw'.`)
+  }
+  const codecs = options?.codecs ?? []
+  if (!Array.isArray(codecs)) {
+    throw new Error(`'codecs' must be an array.`)
+  }
+  const sortKeys = options?.sortKeys ?? false
+  if (
+    typeof sortKeys !== 'boolean' &&
+    typeof sortKeys !== 'function' &&
+    typeof sortKeys?.order !== 'function'
+  ) {
+    throw new Error(`'sortKeys' must be a boolean, a function, or an object with an 'order' function.`)
+  }
+  const keyComparator =
+    sortKeys === true ? compareKeys :
+    typeof sortKeys === 'function' ? sortKeys :
+    undefined
+  const keyOrder = typeof sortKeys === 'object' ? sortKeys.order : undefined
+  const replaceFunc = typeof options?.replace === 'function' ? options.replace : undefined
+  const allowedKeys = Array.isArray(options?.replace) ? getPropertyList(options.replace) : undefined
   const allowInline = options?.allowInline
   const allowTable = options?.allowTable
+  // Without tables or allowInline, which measures them, nothing looks at the
+  // items of an array or object again after their layouts are decided, so
+  // they don't have to be kept
+  const keepItems = allowInline !== undefined || rootLayout.tableArrays || rootLayout.tableObjects ||
+    !minify && overrides.some(o => o.options.tables || o.options.tableArrays || o.options.tableObjects)
+  const annotate = minify ? undefined : options?.annotate
+  // Making a path for every value takes a lot of time, so values that can't
+  // be arrays or objects only get them when something uses them. Numbers that
+  // can't be written are reported with their paths
+  scalarPaths ||= replaceFunc !== undefined || annotate !== undefined ||
+    options?.numbers?.nonFinite === 'throw' || options?.numbers?.negativeZero === 'throw'
+  const previousOutput = options?.previous
+  if (previousOutput !== undefined && typeof previousOutput !== 'string' && typeof previousOutput?.type !== 'string') {
+    throw new Error(`'previous' must be a string or a layout tree.`)
+  }
+  const previousNodes = previousOutput === undefined ? undefined : indexLayout(
+    typeof previousOutput === 'string' ? parseLayout(previousOutput, width) : previousOutput
+  )
+  // The text is written without making layout nodes, unless the layout
+  // depends on them like with the previous layout and the comments from
+  // annotate
+  const writeNodes = previousNodes !== undefined || annotate !== undefined
+  // The replacer and onCircular are called in the same order as in
+  // JSON.stringify, so items are prepared with everything in them and in
+  // order. Otherwise they are only prepared when they are needed, and values
+  // that have been written can be let go of right away
+  const prepareInOrder = replaceFunc !== undefined || typeof onCircular === 'function'
+  // Arrays and objects that contain strings, numbers, booleans, or `null`
+  // are written without being prepared when nothing else needs them to be,
+  // since their layouts are the same as their parents' and they can't be
+  // tables. These are most of the ones in large structures, see
+  // plainContainer
+  const plainItems = !scalarPaths && !writeNodes && !prepareInOrder && overrides.length === 0 &&
+    codecs.length === 0 && keyOrder === undefined && allowInline === undefined && allowTable === undefined
+  // The containers that they are written from, by depth
+  const plainContainers: PreparedContainer[] = []
 
-  function processValue(
-    key: string,
-    val: any,
-    depth: number,
-    parentObj: any,
-    keyLength: number = 0,
-    allowTables: boolean = true
-  ): {
-    result: string | undefined
-    nested: boolean
-  } {
-    if (replaceFunc) val = replaceFunc.bind(parentObj)(key, val)
-
-    if (val === null) return {
-      result: 'null',
-      nested: false
-    }
+  const keyTexts = new Map<string, { text: string, width: number }>()
+  const lineStarts: string[] = []
+  const paddings: string[] = []
 
-    if (typeof val === 'string' || typeof val === 'number' || typeof val === 'bigint') return {
-      result: JSON.stringify(val),
-      nested: false
+  /**
+   * Gets the text of a key with the separator after it, and its width.
+   * Objects in large structures tend to share their keys, so each key is only
+   * quoted and measured once.
+   */
+  function keyText(key: string): { text: string, width: number } {
+    let text = keyTexts.get(key)
+    if (text === undefined) {
+      const quoted = quoteKey(key) + keySeparator
+      text = { text: quoted, width: width(quoted) }
+      keyTexts.set(key, text)
     }
+    return text
+  }
 
-    if (typeof val === 'boolean') return {
-      result: val ? 'true' : 'false',
-      nested: false
-    }
+  function keyWidth(key: string): number {
+    return keyText(key).width
+  }
 
-    if (typeof val === 'object' && typeof val.toJSON === 'function') {
-      return processValue(key, val.toJSON(), depth, parentObj, keyLength)
-    }
+  /**
+   * Gets the line break and the indentation that the lines at the given
+   * depth start with.
+   */
+  function lineStart(depth: number): string {
+    return lineStarts[depth] ??= '\n' + prefixIndent + indent.repeat(depth)
+  }
 
-    if (Array.isArray(val)) {
-      if (tableArrays && allowTables && (allowTable === undefined || allowTable.bind(parentObj)(key, val))) {
-        const rval = replaceFunc ? replaceArrayItems(val) : val
-        const columnOrder = getTableColumnOrder(rval, maxObjectProperties, tableMinSharedKeys)
-        if (columnOrder !== null) {
-          const items = Array.isArray(rval[0]) ?
-            tableOfArrays(rval, columnOrder.length) :
-            tableOfObjects(rval, columnOrder)
-          if (items !== null && items.every(e => e.length <= maxLineLength)) {
-            return {
-              result: formatArray(items, depth, true, keyLength),
-              nested: true
-            }
-          }
-        }
-      }
+  /**
+   * Gets the spaces that the items of arrays are padded with, after the
+   * comma between them if they aren't the first on their line.
+   */
+  function padding(count: number, comma: boolean): string {
+    const index = comma ? count * 2 + 1 : count * 2
+    return paddings[index] ??= (comma ? ',' : '') + ' '.repeat(count)
+  }
 
-      let nested = false
-      let multipleNestedItems = false
-      const items = val.map((item, i) => {
-        const processed = processValue(String(i), item, depth + 1, val)
-        multipleNestedItems ||= nested && typeof item === 'object'
-        nested ||= typeof item === 'object'
-        return processed.result ?? 'null'
-      })
-      return {
-        result: formatArray(
-          items,
-          depth,
-          multipleNestedItems,
-          keyLength,
-          allowInline === undefined || allowInline.bind(parentObj)(key, val)
-        ),
-        nested
+  /**
+   * Gets the previous layout of the array or object at the given path, from
+   * the {@link StringifyOptions.previous previous} option.
+   */
+  function previousAt(path: ValuePath): Exclude<LayoutNode, ScalarNode> | TableRow | undefined {
+    if (previousNodes === undefined || minify) return undefined
+    return previousNodes.get(path.string) as Exclude<LayoutNode, ScalarNode> | TableRow | undefined
+  }
+
+  /**
+   * Gets the layout for the value at the given path by applying the matching
+   * overrides to the layout of its parent.
+   */
+  function layoutAt(path: ValuePath, parentLayout: Layout): Layout {
+    if (overrides.length === 0) return parentLayout
+    let layoutOptions = parentLayout.options
+    for (const override of overrides) {
+      if (override.selectors.some(s => matchSelector(s, path.segments))) {
+        layoutOptions = mergeLayoutOptions(layoutOptions, override.options)
       }
     }
+    return layoutOptions === parentLayout.options ? parentLayout : createLayout(layoutOptions, minify)
+  }
 
-    if (typeof val === 'object') {
-      const keys = Object.keys(val).filter(k => typeof val[k] !== 'undefined' && typeof val[k] !== 'function')
-      table:
-      if (tableObjects && allowTables && (allowTable === undefined || allowTable.bind(parentObj)(key, val))) {
-        const rval = replaceFunc ? replaceObjectProperties(val, keys) : val
-        const columnOrder = getTableColumnOrder(rval, maxObjectProperties, tableMinSharedKeys)
-        if (columnOrder !== null) {
-          const isArray = Array.isArray(rval[keys[0]])
-          if (columnOrder.length > (isArray ? maxArrayItems : maxObjectProperties)) break table
-
-          const jsonKeys = keys.map(k => JSON.stringify(k))
-          const keyColumnWidth = arrMax(jsonKeys.map(k => k.length)) + 1
-          const items = isArray ?
-            tableOfArrays(Object.values(rval), columnOrder.length) :
-            tableOfObjects(Object.values(rval), columnOrder)
-          if (items === null) break table
-
-          for (let i = 0; i < items.length; i++) {
-            items[i] = jsonKeys[i] + ':' + ' '.repeat(keyColumnWidth - jsonKeys[i].length) + items[i]
-          }
-          if (items.some(e => e.length > maxLineLength)) break table
+  function circularReference(path: ValuePath, target: Ancestor): any {
+    const pathString = path.string
+    const targetPathString = target.path.string
+    if (onCircular === 'throw') {
+      throw new CircularReferenceError(pathString, targetPathString)
+    }
+    if (onCircular === 'ref') {
+      return { $ref: targetPathString }
+    }
+    return onCircular(pathString, targetPathString)
+  }
 
-          return {
-            result: formatObject(items, depth, true, keyLength),
-            nested: true
-          }
-        }
-      }
+  function orderKeys(path: ValuePath, keys: string[]): string[] {
+    if (keyComparator !== undefined) return keys.sort(keyComparator)
+    if (keyOrder === undefined) return keys
+    const keySet = new Set(keys)
+    const ordered = new Set(keyOrder(path, keys.slice()).filter(k => keySet.has(k)))
+    for (const k of keys) ordered.add(k)
+    return Array.from(ordered)
+  }
 
-      let nested = false
-      let nestedItems = false
-      const items = keys.map(k => {
-        const keyString = JSON.stringify(k) + ': '
-        const processed = processValue(k, val[k], depth + 1, val, keyString.length)
-        nested ||= typeof val[k] === 'object'
-        nestedItems ||= processed.nested
-        return processed.result !== undefined ? keyString + processed.result : undefined
-      }).filter(x => x !== undefined)
+  /**
+   * Gets the keys of an object, or the keys from the allow-list in
+   * {@link StringifyOptions.replace replace} that it has.
+   */
+  function objectKeys(val: object): string[] {
+    return allowedKeys === undefined ? Object.keys(val) : allowedKeys.filter(k => k in val)
+  }
 
-      return {
-        result: formatObject(
-          items,
-          depth,
-          nestedItems,
-          keyLength,
-          allowInline === undefined || allowInline.bind(parentObj)(key, val)
-        ),
-        nested
+  /**
+   * Same as {@link objectKeys}, but leaves out the properties that are
+   * skipped without a replacer, like `undefined` and functions. Most objects
+   * don't have any, and then the keys aren't copied.
+   */
+  function writtenKeys(val: object): string[] {
+    const keys = objectKeys(val)
+    for (let i = 0; i < keys.length; i++) {
+      const type = typeof val[keys[i]]
+      if (type === 'undefined' || type === 'function') {
+        return keys.filter(k => typeof val[k] !== 'undefined' && typeof val[k] !== 'function')
       }
     }
+    return keys
   }
 
-  function replaceObjectProperties(val: Record<string, any>, keys: string[]): Record<string, any> {
-    const result: Record<string, any> = {}
-    const replace = replaceFunc.bind(val)
-    for (let i = 0; i < keys.length; i++) {
-      const k = keys[i]
-      result[k] = replace(k, val[k])
-    }
-    return result
+  /**
+   * Gets the columns of a table from the keys that are written in its rows,
+   * so properties that are skipped don't get columns.
+   */
+  function tableColumnOrder(rows: TableRows): string[] | null {
+    return getTableColumnOrder(
+      rows.values,
+      rows.layout.maxObjectProperties,
+      rows.layout.tableMinSharedKeys,
+      (_, i) => {
+        const row = rows.items[i] as PreparedContainer
+        settleItems(row)
+        return row.keys
+      },
+      keyComparator,
+      rows.layout.tableKeyOrder
+    )
   }
 
-  function replaceArrayItems(val: any[]): any[] {
-    const result: any[] = []
-    const replace = replaceFunc.bind(val)
-    for (let i = 0; i < val.length; i++) {
-      result[i] = replace(String(i), val[i])
+  /**
+   * Converts an object using the first matching codec or its `toJSON` method,
+   * which is given the key like in JSON.stringify. BigInts can also have a
+   * `toJSON` method. Other values are returned as is.
+   */
+  function toJSONValue(key: string, val: any): any {
+    if (typeof val === 'bigint') return typeof (val as any).toJSON === 'function' ? (val as any).toJSON(key) : val
+    if (typeof val !== 'object' || val === null || val instanceof NumberLiteral) return val
+    for (let i = 0; i < codecs.length; i++) {
+      if (codecs[i].test(val)) return codecs[i].encode(val, key)
     }
-    return result
+    if (typeof val.toJSON === 'function') return val.toJSON(key)
+    return val
   }
 
-  function tableOfArrays(rowArrs: any[][], columnCount: number): string[] | null {
-    const columns: any[][] = []
-    const columnWidths: number[] = []
-    for (let i = 0; i < columnCount; i++) {
-      const column = rowArrs.map(e => e?.[i])
-      const subcolumnOrder = getTableColumnOrder(column, maxObjectProperties, tableMinSharedKeys)
-      if (subcolumnOrder !== null) {
-        const isArray = Array.isArray(column.find(e => e !== undefined))
-        if (subcolumnOrder.length > (isArray ? maxArrayItems : maxObjectProperties)) return null
-        const subtable = isArray ?
-          tableOfArrays(column, subcolumnOrder.length) :
-          tableOfObjects(column, subcolumnOrder)
-        if (subtable !== null) {
-          // Subtable
-          columnWidths[i] = 0
-          for (let j = 0; j < subtable.length; j++) {
-            columnWidths[i] = Math.max(columnWidths[i], subtable[j].length)
-          }
-          columns[i] = subtable
-          continue
-        }
-      }
-      // Not a subtable
-      columns[i] = []
-      let numeric = true
-      for (let j = 0; j < column.length; j++) {
-        const v = column[j]
-        if (v === undefined) continue
-        const s = processValue(String(i), v, 0, rowArrs, 0, false).result
-        const sl = s.length
-        if (sl > maxLineLength || s.includes('\n')) return null
-        columnWidths[i] = Math.max(columnWidths[i] ?? 0, sl)
-        columns[i][j] = s
-        numeric &&= !Number.isNaN(Number(s))
-      }
-      if (tableDecimalAlignment && numeric) {
-        columns[i] = decimalAlignment(columns[i])
-        for (let j = 0; j < columns[i].length; j++) {
-          columnWidths[i] = Math.max(columnWidths[i] ?? 0, columns[i][j]?.length ?? 0)
-        }
-      }
+  /**
+   * Replaces a value that has been converted with {@link toJSONValue}, and
+   * unboxes numbers, strings, booleans, and BigInts like JSON.stringify does.
+   */
+  function replaceValue(key: string, val: any, holder: any, path: ValuePath, depth: number): any {
+    if (replaceFunc) {
+      val = replaceFunc.call(holder, key, val, path, {
+        path,
+        depth,
+        parent: holder,
+        tableCell: false,
+        inlineWidth: undefined
+      })
     }
+    return unbox(val)
+  }
 
-    const table: string[] = []
-    for (let i = 0; i < rowArrs.length; i++) {
-      if (rowArrs[i] === undefined) {
-        table.push('')
-        continue
-      }
-      let row = '[ '
-      const lastFilledColumn = rowArrs[i].length - 1
-      const end = tablePadEndOfRows ? columnCount : lastFilledColumn + 1
-      for (let columnIndex = 0; columnIndex < end; columnIndex++) {
-        if (columns[columnIndex][i] === undefined) {
-          row += ' '.repeat(columnWidths[columnIndex] + 2)
-          continue
-        }
-        row += columns[columnIndex][i]
-          + (columnIndex !== lastFilledColumn ? ',' : '')
-          + ' '.repeat(columnWidths[columnIndex] - columns[columnIndex][i].length + 1)
-      }
-      table.push(row + ']')
+  /**
+   * Gets the rows of a table from their prepared values. Rows that are
+   * missing from objects or skipped are `undefined`. Returns `null` if fewer
+   * than two rows are arrays or objects, if any other rows are written, or
+   * if the rows don't share the same layout, since it can't be a table then.
+   */
+  function tableRows(items: (PreparedValue | undefined)[]): TableRows | null {
+    let layout: Layout | undefined
+    let count = 0
+    for (const item of items) {
+      if (item === undefined || isSkipped(item)) continue
+      if (item.type === 'Scalar') return null
+      // The rows of a table have to share the same layout
+      if (layout !== undefined && layout !== item.layout) return null
+      layout = item.layout
+      count++
     }
-    return table
+    if (count < 2) return null
+    return { items, values: items.map(item => item === undefined || isSkipped(item) ? undefined : item.value), layout }
   }
 
-  function tableOfObjects(rowObjs: any[], columnOrder: string[]): string[] | null {
-    const columns: Record<string, any[]> = {}
-    const columnWidths: Record<string, number> = {}
-    for (let i = 0; i < columnOrder.length; i++) {
-      const columnKey = columnOrder[i]
-      const jsonKey = JSON.stringify(columnKey)
-      const column = rowObjs.map(e => e?.[columnKey])
-      const subcolumnOrder = getTableColumnOrder(column, maxObjectProperties, tableMinSharedKeys)
-      if (subcolumnOrder !== null) {
-        const isArray = Array.isArray(column.find(e => e !== undefined))
-        if (subcolumnOrder.length > (isArray ? maxArrayItems : maxObjectProperties)) return null
-        const subtable = isArray ?
-          tableOfArrays(column, subcolumnOrder.length) :
-          tableOfObjects(column, subcolumnOrder)
-        if (subtable !== null) {
-          // Subtable
-          columnWidths[columnKey] = 0
-          for (let j = 0; j < subtable.length; j++) {
-            if (subtable[j].length === 0) {
-              subtable[j] = undefined
-              continue
-            }
-            subtable[j] = jsonKey + ': ' + subtable[j]
-            columnWidths[columnKey] = Math.max(columnWidths[columnKey], subtable[j].length)
-          }
-          columns[columnKey] = subtable
-          continue
-        }
-      }
-      // Not a subtable
-      columns[columnKey] = []
-      const rowCount = column.length
-      if (tableDecimalAlignment) {
-        let numeric = true
-        for (let j = 0; j < rowCount; j++) {
-          const v = column[j]
-          if (v === undefined) continue
-          const s = processValue(columnKey, v, 0, rowObjs, 0, false).result
-          if (s.includes('\n')) return null
-          columns[columnKey][j] = s
-          numeric &&= !Number.isNaN(Number(s))
+  /**
+   * Replaces and converts a value, and formats it if it isn't an array or
+   * object.
+   *
+   * @param path - The path of the value, which is only left out when it
+   * can't be an array or object and nothing uses it, see
+   * {@link scalarPaths}.
+   */
+  function prepareValue(
+    key: string,
+    val: any,
+    parentObj: any,
+    path: ValuePath | undefined,
+    ancestors: Ancestor | undefined
+  ): PreparedValue {
+    const depth = ancestors === undefined ? 0 : ancestors.depth + 1
+    // Like in JSON.stringify, toJSON is called before the replacer
+    const original = val
+    const json = toJSONValue(key, val)
+    val = replaceValue(key, json, parentObj, path, depth)
+
+    if (typeof val === 'object' && val !== null) {
+      // An object that converts to a new object containing itself is also a
+      // circular reference
+      const target = findAncestor(ancestors, val) ?? (val === json && json !== original ? findAncestor(ancestors, original) : undefined)
+      if (target !== undefined) val = circularReference(path, target)
+    }
+
+    if (typeof val === 'string') return scalar(path, val, quote(val))
+
+    if (typeof val === 'number') return scalar(path, val, formatNumber(val, path))
+
+    if (val === null) return scalar(path, val, 'null')
+
+    if (val instanceof NumberLiteral) {
+      const text = roundLiteral(val.text, options?.numbers)
+      // Literals that are rounded to zero follow the negativeZero option
+      return scalar(path, val, text !== val.text && Number(text) === 0 ? formatNumber(Number(text), path) : text)
+    }
+
+    if (typeof val === 'bigint') {
+      if (bigintMode === 'throw') {
+        throw new TypeError('Do not know how to serialize a BigInt')
+      }
+      return scalar(path, val, bigintMode === 'number' ? val.toString() : quote(val.toString()))
+    }
+
+    if (typeof val === 'boolean') return scalar(path, val, val ? 'true' : 'false')
+
+    if (typeof val === 'object') {
+      if (typeof original === 'object' && original !== json) {
+        // The original object is also an ancestor of the result, so that
+        // objects that convert to new objects containing themselves are caught
+        ancestors = { value: original, path, depth, parent: ancestors, layout: ancestors?.layout ?? rootLayout }
+      }
+      const layout = layoutAt(path, ancestors?.layout ?? rootLayout)
+      const isArray = Array.isArray(val)
+      // The replacer is also called for properties that are skipped without
+      // it, like in JSON.stringify
+      const keys = isArray ? undefined : orderKeys(path, replaceFunc ? objectKeys(val) : writtenKeys(val))
+      return createContainer(isArray ? 'array' : 'object', key, val, parentObj, path, depth, ancestors, layout, keys)
+    }
+
+    // Functions, symbols, and undefined
+    return scalar(path, val, undefined)
+  }
+
+  /**
+   * Prepares all of the items of an array or object and everything in them,
+   * in the same order as JSON.stringify calls the replacer. The properties
+   * that are skipped are then left out of the keys.
+   */
+  function prepareItems(prepared: PreparedContainer) {
+    const count = prepared.type === 'array' ? prepared.value.length : prepared.keys.length
+    for (let i = 0; i < count; i++) {
+      const item = peekItem(prepared, i)
+      // Items that are prepared in order already have everything in them
+      // prepared
+      if (item.type !== 'Scalar' && !prepareInOrder) prepareItems(item)
+    }
+    settleItems(prepared)
+  }
+
+  /**
+   * Prepares all of the items of an array or object, but not what's in them
+   * unless they are prepared in order. The properties that are skipped are
+   * then left out of the keys, so that the keys are the ones that are
+   * written, which tables need.
+   */
+  function settleItems(prepared: PreparedContainer) {
+    if (prepared.settled) return
+    prepared.settled = true
+    if (prepared.type === 'array') return
+    let skipped = false
+    for (let i = 0; i < prepared.keys.length; i++) {
+      if (isSkipped(peekItem(prepared, i))) skipped = true
+    }
+    if (skipped) {
+      const written = prepared.keys.flatMap((_, i) => isSkipped(prepared.items[i]) ? [] : [ i ])
+      prepared.keys = written.map(i => prepared.keys[i])
+      prepared.items = written.map(i => prepared.items[i])
+    }
+  }
+
+  /**
+   * Prepares an item in an array or object and keeps it so that it can be
+   * formatted later.
+   */
+  function peekItem(container: PreparedContainer, i: number): PreparedValue {
+    const prepared = container.items[i]
+    if (prepared !== undefined) return prepared
+    const key = container.type === 'array' ? String(i) : container.keys[i]
+    const val = container.type === 'array' ? container.value[i] : container.value[key]
+    // Only objects and BigInts can be converted to arrays or objects, other
+    // than by the replacer
+    const path = scalarPaths || typeof val === 'object' && val !== null || typeof val === 'bigint' ?
+      container.path.child(container.type === 'array' ? i : key) :
+      undefined
+    const item = container.items[i] = prepareValue(key, val, container.value, path, container)
+    if (prepareInOrder && item.type !== 'Scalar') prepareItems(item)
+    return item
+  }
+
+  /**
+   * Prepares all of the items of an array or object like
+   * {@link settleItems}, and returns them.
+   */
+  function peekItems(container: PreparedContainer): PreparedValue[] {
+    settleItems(container)
+    const count = container.type === 'array' ? container.value.length : container.keys.length
+    const items: PreparedValue[] = new Array(count)
+    for (let i = 0; i < count; i++) items[i] = peekItem(container, i)
+    return items
+  }
+
+  /**
+   * Same as {@link peekItem}, but doesn't keep the item.
+   */
+  function takeItem(container: PreparedContainer, i: number): PreparedValue {
+    const item = peekItem(container, i)
+    container.items[i] = undefined
+    return item
+  }
+
+  /**
+   * Gets the text of an item that is a string, number, boolean, or `null`
+   * without preparing it, or `undefined` if it has to be prepared. These are
+   * most of the items in large structures, and only need to be prepared when
+   * something uses their paths.
+   */
+  function primitiveText(container: PreparedContainer, i: number): string | undefined {
+    if (scalarPaths || container.items[i] !== undefined) return undefined
+    const val = container.type === 'array' ? container.value[i] : container.value[container.keys[i]]
+    if (typeof val === 'string') return quote(val)
+    if (typeof val === 'number') return formatNumber(val, undefined)
+    if (typeof val === 'boolean') return val ? 'true' : 'false'
+    return val === null ? 'null' : undefined
+  }
+
+  /**
+   * Gets an item that is an array or object to write without preparing it,
+   * if {@link plainItems} allows it and it can't be a table, which it can't
+   * if any of its items are strings, numbers, booleans, or `null`, or if none
+   * of them are arrays or objects. Otherwise returns `undefined`. Only the
+   * other items in it are prepared, when it is written, so it is written from
+   * the same container as everything else at its depth. The container is
+   * only used until it is written.
+   */
+  function plainContainer(container: PreparedContainer, i: number): PreparedContainer | undefined {
+    if (!plainItems || container.items[i] !== undefined) return undefined
+    const key = container.type === 'array' ? undefined : container.keys[i]
+    const val = key === undefined ? container.value[i] : container.value[key]
+    if (
+      typeof val !== 'object' || val === null || val instanceof NumberLiteral ||
+      typeof val.toJSON === 'function' || unbox(val) !== val || containsComments(val)
+    ) {
+      return undefined
+    }
+    const isArray = Array.isArray(val)
+    let keys = isArray ? undefined : objectKeys(val)
+    const count = isArray ? val.length : keys.length
+    let skipped = false
+    let primitives = false
+    let containers = false
+    for (let j = 0; j < count; j++) {
+      const item = isArray ? val[j] : val[keys[j]]
+      const type = typeof item
+      if (type === 'bigint') return undefined
+      containers ||= type === 'object' && item !== null
+      primitives ||= type === 'string' || type === 'number' || type === 'boolean' || item === null
+      skipped ||= type === 'undefined' || type === 'function'
+    }
+    // Only values that contain arrays or objects can contain themselves
+    if (containers && (!primitives || findAncestor(container, val) !== undefined)) return undefined
+    if (!isArray) {
+      if (skipped) keys = keys.filter(k => typeof val[k] !== 'undefined' && typeof val[k] !== 'function')
+      if (keyComparator !== undefined) keys.sort(keyComparator)
+    }
+    const depth = container.depth + 1
+    const plain = plainContainers[depth] ??= createContainer(isArray ? 'array' : 'object', '', val, undefined, undefined, depth, undefined, rootLayout, keys)
+    plain.type = isArray ? 'array' : 'object'
+    plain.key = key ?? String(i)
+    plain.value = val
+    plain.parentObj = container.value
+    // The arrays and objects in it are prepared with their paths
+    plain.path = containers ? container.path.child(key ?? i) : undefined
+    plain.depth = depth
+    plain.parent = container
+    plain.layout = container.layout
+    plain.keys = keys
+    plain.table = null
+    return plain
+  }
+
+  /**
+   * Prepares the cell of a table row in the given column, or returns
+   * `undefined` if the row doesn't have it.
+   */
+  function peekCell(row: PreparedValue | undefined, columnKey: string | number): PreparedValue | undefined {
+    if (row === undefined || row.type === 'Scalar') return undefined
+    if (row.type === 'array') return peekItem(row, Number(columnKey))
+    const i = row.keys.indexOf(String(columnKey))
+    return i < 0 ? undefined : peekItem(row, i)
+  }
+
+  /**
+   * Decides the layout of a prepared value and everything in it.
+   */
+  function renderValue(
+    prepared: PreparedValue,
+    keyLength: number = 0,
+    allowTables: boolean = true,
+    tableCell: boolean = false
+  ): RenderedValue {
+    if (prepared.type === 'Scalar') return {
+      node: isSkipped(prepared) ? undefined : prepared as ScalarNode,
+      nested: false
+    }
+
+    const { value, path } = prepared
+    const commented = containsComments(value) || isAnnotated(prepared)
+    // Comments can be put around the rows of tables, but not inside them
+    allowTables &&= !containsComments(value) && !hasAnnotatedItems(prepared)
+    // Tables are tried first, unless the previous layout is something else
+    const previous = commented ? undefined : previousAt(path)
+    const tablesFirst = previous === undefined || previous.type === 'Table'
+
+    if (allowTables && tablesFirst) {
+      const table = getTable(prepared)
+      if (table !== null) return {
+        node: table,
+        nested: true
+      }
+    }
+
+    const { items, properties, nested, nestedItems } = renderItems(prepared)
+    const inline = !commented && isInlineAllowed(prepared, tableCell)
+    if (!tablesFirst) {
+      const node = prepared.type === 'array' ?
+        previousArrayLayout(prepared, items, nestedItems, keyLength, inline, previous) :
+        previousObjectLayout(prepared, properties, nestedItems, keyLength, inline, previous)
+      if (node !== null) return { node, nested }
+      if (allowTables) {
+        const table = getTable(prepared)
+        if (table !== null) return {
+          node: table,
+          nested: true
+        }
+      }
+    }
+    return {
+      node: prepared.type === 'array' ?
+        formatArray(
+          prepared,
+          items,
+          nestedItems,
+          keyLength,
+          inline,
+          commented ? itemComments(prepared, indexKeys(items.length)) : undefined
+        ) :
+        formatObject(
+          prepared,
+          properties,
+          nestedItems,
+          keyLength,
+          inline,
+          commented ? itemComments(prepared, properties.map(p => p.key)) : undefined
+        ),
+      nested
+    }
+  }
+
+  /**
+   * Decides the layouts of the items of an array or object. They don't
+   * depend on how the array or object itself is formatted, so this is only
+   * done once for each of them, even when tables are tried first.
+   */
+  function renderItems(prepared: PreparedContainer): RenderedItems {
+    if (prepared.renderedItems !== undefined) return prepared.renderedItems
+    const getItem = keepItems ? peekItem : takeItem
+    let nested = false
+    let nestedItems = false
+    if (prepared.type === 'array') {
+      const items: LayoutNode[] = new Array(prepared.value.length)
+      for (let i = 0; i < items.length; i++) {
+        const item = getItem(prepared, i)
+        const processed = renderValue(item)
+        nestedItems ||= nested && isNested(item, true)
+        nested ||= isNested(item, true)
+        items[i] = processed.node ?? scalar(item.path, undefined, 'null') as ScalarNode
+      }
+      return prepared.renderedItems = { items, properties: undefined, nested, nestedItems }
+    }
+
+    const keys = prepared.keys
+    const properties: LayoutProperty[] = new Array(keys.length)
+    let count = 0
+    for (let i = 0; i < keys.length; i++) {
+      const k = keys[i]
+      const item = getItem(prepared, i)
+      const processed = renderValue(item, keyWidth(k))
+      nested ||= isNested(item, false)
+      nestedItems ||= processed.nested
+      if (processed.node === undefined) continue
+      properties[count++] = { key: k, value: processed.node }
+    }
+    if (count < properties.length) properties.length = count
+    return prepared.renderedItems = { items: undefined, properties, nested, nestedItems }
+  }
+
+  /**
+   * Calls {@link StringifyOptions.allowInline allowInline} for an array or
+   * object. The result is kept, so it is only called once for the value on
+   * its own and once for it as a table cell.
+   */
+  function isInlineAllowed(prepared: PreparedContainer, tableCell: boolean): boolean {
+    if (allowInline === undefined) return true
+    if (tableCell) return prepared.cellInlineAllowed ??= allowInline.call(prepared.parentObj, prepared.key, prepared.value, ...hookArguments(prepared, true))
+    return prepared.inlineAllowed ??= allowInline.call(prepared.parentObj, prepared.key, prepared.value, ...hookArguments(prepared, false))
+  }
+
+  /**
+   * Calls {@link StringifyOptions.allowTable allowTable} for an array or
+   * object.
+   */
+  function isTableAllowed(prepared: PreparedContainer): boolean {
+    return allowTable === undefined || allowTable.call(prepared.parentObj, prepared.key, prepared.value, ...hookArguments(prepared, false))
+  }
+
+  /**
+   * Gets the path and the {@link ValueContext} arguments of the hooks for an
+   * array or object.
+   */
+  function hookArguments(prepared: PreparedContainer, tableCell: boolean): [ ValuePath, ValueContext ] {
+    const path = prepared.path
+    return [ path, {
+      path,
+      depth: prepared.depth,
+      parent: prepared.parentObj,
+      tableCell,
+      inlineWidth: inlineWidth(prepared)
+    } ]
+  }
+
+  /**
+   * Estimates the width of a value written on a single line, without looking
+   * at how it is formatted.
+   *
+   * @param limit - Stops measuring once the width is more than this, and
+   * returns a width that is more than it. Only as much of the value as that
+   * takes is prepared.
+   */
+  function inlineWidth(prepared: PreparedValue, limit: number = Infinity): number {
+    if (prepared.type === 'Scalar') return width(prepared.text ?? 'null')
+    if (prepared.inlineWidth !== undefined) return prepared.inlineWidth
+    const count = prepared.type === 'array' ? prepared.value.length : prepared.keys.length
+    // The brackets
+    let total = 2
+    let written = 0
+    for (let i = 0; i < count; i++) {
+      if (total > limit) return total
+      const item = peekItem(prepared, i)
+      if (prepared.type === 'object') {
+        if (isSkipped(item)) continue
+        total += keyWidth(prepared.keys[i])
+      }
+      // The commas between the items, with spaces after them unless minified
+      total += minify ? written > 0 ? 1 : 0 : 2
+      total += inlineWidth(item, limit - total)
+      written++
+    }
+    if (total > limit) return total
+    return prepared.inlineWidth = total
+  }
+
+  /**
+   * Formats an array or object as a table, or returns `null` if it can't be
+   * one. The result is kept, since tables are tried in more than one place.
+   */
+  function getTable(prepared: PreparedContainer): TableNode | null {
+    if (prepared.table === undefined) {
+      prepared.table = prepared.type === 'array' ? arrayTable(prepared) : objectTable(prepared)
+    }
+    return prepared.table
+  }
+
+  /**
+   * Gets the columns that the array or object at the given path had if it was
+   * a table in the previous layout.
+   */
+  function previousTableColumns(path: ValuePath): TableColumn[] | undefined {
+    const previous = previousAt(path)
+    return previous?.type === 'Table' ? previous.columns : undefined
+  }
+
+  /**
+   * Formats an array as a table, or returns `null` if it can't be one.
+   */
+  function arrayTable(prepared: PreparedContainer): TableNode | null {
+    const { value, path, layout } = prepared
+    if (!layout.tableArrays || !isTableAllowed(prepared) || rowsTooWide(prepared)) {
+      return null
+    }
+    const rows = tableRows(peekItems(prepared))
+    const columnOrder = rows === null ? null : tableColumnOrder(rows)
+    if (columnOrder === null || rows.values.some(isMissing)) return null
+    const build = (previousColumns: TableColumn[] | undefined) => {
+      const maxRowWidth = layout.tableWrap ? Infinity : layout.maxLineLength
+      const table = Array.isArray(rows.values[0]) ?
+        tableOfArrays(rows, columnOrder.length, maxRowWidth, previousColumns) :
+        tableOfObjects(rows, columnOrder, maxRowWidth, previousColumns)
+      if (table === null) return null
+      if (table.rows.some(row => renderer.measureRow(row, table.columns, table.padEndOfRows) > layout.maxLineLength)) {
+        return wrapTable(table, 2, layout)
+      }
+      return table
+    }
+    const previousColumns = previousTableColumns(path)
+    const table = previousColumns === undefined ? build(undefined) : build(previousColumns) ?? build(undefined)
+    if (table === null) return null
+    const comments = itemComments(prepared, indexKeys(value.length))
+    return {
+      type: 'Table',
+      path,
+      value,
+      ...table,
+      ...comments && { comments }
+    }
+  }
+
+  /**
+   * Formats an object as a table, or returns `null` if it can't be one.
+   */
+  function objectTable(prepared: PreparedContainer): TableNode | null {
+    const { value, path, layout } = prepared
+    if (!layout.tableObjects || !isTableAllowed(prepared) || rowsTooWide(prepared)) {
+      return null
+    }
+    const rows = tableRows(peekItems(prepared))
+    if (rows === null || rows.values.some(isMissing)) return null
+    // The keys of the properties that are skipped are left out by now
+    const keys = prepared.keys
+    const columnOrder = tableColumnOrder(rows)
+    if (columnOrder === null) return null
+    const isArray = Array.isArray(rows.values[0])
+    if (columnOrder.length > (isArray ? layout.maxArrayItems : layout.maxObjectProperties)) return null
+
+    const jsonKeys = keys.map(quoteKey)
+    const keyColumnWidth = arrMax(jsonKeys.map(width)) + 1
+    const build = (previousColumns: TableColumn[] | undefined) => {
+      const maxRowWidth = layout.tableWrap ? Infinity : layout.maxLineLength - keyColumnWidth - 1
+      const table = isArray ?
+        tableOfArrays(rows, columnOrder.length, maxRowWidth, previousColumns) :
+        tableOfObjects(rows, columnOrder, maxRowWidth, previousColumns)
+      if (table === null) return null
+      let fits = true
+      for (let i = 0; i < table.rows.length; i++) {
+        table.rows[i].key = keys[i]
+        const rowWidth = keyColumnWidth + 1 + renderer.measureRow(table.rows[i], table.columns, table.padEndOfRows)
+        fits &&= rowWidth <= layout.maxLineLength
+      }
+      return fits ? table : wrapTable(table, keyColumnWidth + 3, layout)
+    }
+    const previousColumns = previousTableColumns(path)
+    const table = previousColumns === undefined ? build(undefined) : build(previousColumns) ?? build(undefined)
+    if (table === null) return null
+    const comments = itemComments(prepared, keys)
+
+    return {
+      type: 'Table',
+      path,
+      value,
+      ...table,
+      ...comments && { comments }
+    }
+  }
+
+  /**
+   * Checks if the items of an array or object are too wide to be the rows of
+   * a table, or can't be rows at all, going through them in order and
+   * stopping as soon as that is known. Nothing else about the rows is checked
+   * until this is done, so tables that don't fit are given up on without
+   * preparing more of the rows than that takes. This is the same check as
+   * {@link isTooWide}, with the columns that the rows so far have.
+   */
+  function rowsTooWide(prepared: PreparedContainer): boolean {
+    const { layout } = prepared
+    if (layout.tableWrap) return false
+    const isArray = prepared.type === 'array'
+    const count = isArray ? prepared.value.length : prepared.keys.length
+    // The widest cell so far in each column, by index or key
+    let columnWidths: Map<string | number, number> | undefined
+    // Where the column after the last one would start, and the width of the
+    // keys of the rows of tables made from objects
+    let columnsEnd = 2
+    let keyColumnWidth = 0
+    for (let j = 0; j < count; j++) {
+      // Strings, numbers, booleans, and null can't be rows, which is found
+      // without preparing them
+      if (primitiveText(prepared, j) !== undefined) return true
+      const row = peekItem(prepared, j)
+      // Arrays don't leave out rows, and tables need all of them to be arrays
+      // or objects
+      if (isSkipped(row) && !isArray) continue
+      if (row.type === 'Scalar') return true
+      columnWidths ??= new Map()
+      if (!isArray) keyColumnWidth = Math.max(keyColumnWidth, width(quoteKey(prepared.keys[j])) + 2)
+      const cellCount = row.type === 'array' ? row.value.length : row.keys.length
+      for (let i = 0; i < cellCount; i++) {
+        const cell = peekItem(row, i)
+        if (row.type === 'object' && isSkipped(cell)) continue
+        const columnKey = row.type === 'array' ? i : row.keys[i]
+        const cellWidth = inlineWidth(cell, layout.maxLineLength)
+        const columnWidth = columnWidths.get(columnKey)
+        if (columnWidth === undefined) {
+          columnsEnd += (row.type === 'object' ? keyWidth(columnKey as string) : 0) + cellWidth + 2
+        } else if (cellWidth > columnWidth) {
+          columnsEnd += cellWidth - columnWidth
+        } else {
+          continue
+        }
+        columnWidths.set(columnKey, cellWidth)
+      }
+      if (keyColumnWidth + columnsEnd > layout.maxLineLength) return true
+    }
+    return false
+  }
+
+  /**
+   * Splits the rows of a table that doesn't fit on single lines into
+   * multiple lines with {@link StringifyOptions.tableWrap tableWrap}. Returns
+   * `null` if that's disabled, if a column doesn't fit on a line of its own,
+   * or if a row would have an empty line before its last cell.
+   *
+   * @param firstColumnStart - Where the first column starts in the rows,
+   * after the keys of the rows and the opening brackets.
+   */
+  function wrapTable(table: TableBody, firstColumnStart: number, layout: Layout): TableBody | null {
+    if (!layout.tableWrap) return null
+    const lineBreaks: number[] = []
+    let lineWidth = firstColumnStart
+    for (let i = 0; i < table.columns.length; i++) {
+      const columnWidth = table.columns[i].width + 2
+      if (i > 0 && lineWidth + columnWidth > layout.maxLineLength) {
+        lineBreaks.push(i)
+        lineWidth = firstColumnStart + indent.length
+      }
+      if (lineWidth + columnWidth > layout.maxLineLength) return null
+      lineWidth += columnWidth
+    }
+    const lineStarts = [ 0, ...lineBreaks, table.columns.length ]
+    for (const row of table.rows) {
+      if (row === undefined) continue
+      const lastCell = row.cells.findLastIndex(cell => cell !== undefined)
+      for (let line = 0; lineStarts[line] <= lastCell; line++) {
+        if (!row.cells.slice(lineStarts[line], lineStarts[line + 1]).some(cell => cell !== undefined)) return null
+      }
+    }
+    return { ...table, lineBreaks }
+  }
+
+  /**
+   * Checks if an array or object is going to be formatted on multiple lines,
+   * without formatting it. This can return `false` for values that do end up
+   * on multiple lines, but never `true` for values that don't.
+   */
+  function isMultiline(prepared: PreparedValue): boolean {
+    if (prepared.type === 'Scalar' || minify) return false
+    return prepared.multiline ??= isMultilineContainer(prepared)
+  }
+
+  function isMultilineContainer(prepared: PreparedContainer): boolean {
+    const { value, path, layout } = prepared
+    if (containsComments(value) || isAnnotated(prepared)) return true
+
+    const count = prepared.type === 'array' ? value.length : prepared.keys.length
+    if (prepared.type === 'array') {
+      if (count === 0) return false
+      if (count > layout.maxArrayItems) return true
+      let nestedCount = 0
+      for (let i = 0; i < count; i++) {
+        if (isNested(peekItem(prepared, i), true) && ++nestedCount > 1) return true
+      }
+    } else {
+      for (let i = 0; i < count; i++) {
+        const item = peekItem(prepared, i)
+        if (item.type === 'Scalar') continue
+        const subitemCount = item.type === 'array' ? item.value.length : item.keys.length
+        for (let j = 0; j < subitemCount; j++) {
+          if (isNested(peekItem(item, j), item.type === 'array')) return true
+        }
+      }
+      if (count === 0) return false
+      if (count > layout.maxObjectProperties) return true
+    }
+    if (previousAt(path)?.type === (prepared.type === 'array' ? 'MultilineArray' : 'MultilineObject')) return true
+
+    // Inlined arrays and objects can't contain anything on multiple lines
+    for (let i = 0; i < count; i++) {
+      if (isMultiline(peekItem(prepared, i))) return true
+    }
+    return !isInlineAllowed(prepared, false)
+  }
+
+  /**
+   * Gets the comments from {@link StringifyOptions.annotate annotate} for the
+   * items of an array or object, or `null` if there are none. This prepares
+   * all of the items, so it has to be called before any of them are taken.
+   */
+  function getAnnotations(prepared: PreparedContainer): Record<string, ItemComments> | null {
+    if (annotate === undefined) return null
+    if (prepared.annotations !== undefined) return prepared.annotations
+    let annotations: Record<string, ItemComments> | null = null
+    const count = prepared.type === 'array' ? prepared.value.length : prepared.keys.length
+    for (let i = 0; i < count; i++) {
+      const item = peekItem(prepared, i)
+      const key = prepared.type === 'array' ? String(i) : prepared.keys[i]
+      const comments = toItemComments(annotate(item.path, key, item.value))
+      if (comments !== undefined) (annotations ??= Object.create(null) as Record<string, ItemComments>)[key] = comments
+    }
+    return prepared.annotations = annotations
+  }
+
+  /**
+   * Checks if any items of an array or object, or anything in them, get
+   * comments from {@link StringifyOptions.annotate annotate}.
+   */
+  function isAnnotated(prepared: PreparedValue): boolean {
+    if (prepared.type === 'Scalar') return false
+    return getAnnotations(prepared) !== null || hasAnnotatedItems(prepared)
+  }
+
+  /**
+   * Checks if anything inside the items of an array or object gets comments
+   * from {@link StringifyOptions.annotate annotate}, which stops it from being
+   * a table.
+   */
+  function hasAnnotatedItems(prepared: PreparedContainer): boolean {
+    if (annotate === undefined) return false
+    if (prepared.annotatedItems !== undefined) return prepared.annotatedItems
+    const count = prepared.type === 'array' ? prepared.value.length : prepared.keys.length
+    let annotated = false
+    for (let i = 0; i < count && !annotated; i++) {
+      annotated = isAnnotated(peekItem(prepared, i))
+    }
+    return prepared.annotatedItems = annotated
+  }
+
+  /**
+   * Gets the comments for the items of an array or object with the given
+   * keys, from both the parsed JSONC text and
+   * {@link StringifyOptions.annotate annotate}.
+   */
+  function itemComments(prepared: PreparedContainer, keys: string[]): LayoutComments | undefined {
+    const comments = getItemComments(prepared.value, keys)
+    const annotations = getAnnotations(prepared)
+    if (annotations === null) return comments
+    return {
+      items: keys.map((k, i) => {
+        const parsed = comments?.items[i]
+        const annotation = annotations[k]
+        return parsed === undefined || annotation === undefined ? parsed ?? annotation : {
+          before: parsed.before.concat(annotation.before),
+          after: parsed.after.concat(annotation.after)
+        }
+      }),
+      end: comments?.end ?? []
+    }
+  }
+
+  /**
+   * Same as {@link renderValue}, but yields the result as text in chunks.
+   * Arrays and objects that are formatted with one item per line are written
+   * item by item, everything else is formatted as a whole.
+   */
+  function* streamValue(prepared: PreparedValue, depth: number, keyLength: number = 0): Generator<string> {
+    if (prepared.type === 'Scalar') {
+      if (prepared.text !== undefined) yield prepared.text
+      return
+    }
+    const isArray = prepared.type === 'array'
+    if (!minify && needsAllItems(prepared)) {
+      prepareItems(prepared)
+      if (containsComments(prepared.value)) {
+        yield layoutText(prepared, keyLength)
+        return
+      }
+      const previous = isAnnotated(prepared) ? undefined : previousAt(prepared.path)
+      if (previous === undefined || previous.type === 'Table') {
+        const table = hasAnnotatedItems(prepared) ? null : getTable(prepared)
+        if (table !== null) {
+          yield renderer.render(table, depth)
+          return
+        }
+      } else if (previous.type !== (isArray ? 'MultilineArray' : 'MultilineObject')) {
+        // The previous layout might not fit anymore, and then tables have to
+        // be tried after it
+        yield layoutText(prepared, keyLength)
+        return
+      }
+      if (!isMultiline(prepared) || isArray && (mayBeCompact(prepared) || mayBeAligned(prepared))) {
+        yield layoutText(prepared, keyLength, false)
+        return
+      }
+    }
+
+    const itemIndent = minify ? '' : '\n' + prefixIndent + indent.repeat(depth + 1)
+    const count = isArray ? prepared.value.length : prepared.keys.length
+    const annotations = getAnnotations(prepared)
+    let empty = true
+    // The comment after the previous item, which goes after its comma
+    let after = ''
+    for (let i = 0; i < count; i++) {
+      const item = takeItem(prepared, i)
+      if (!isArray && item.type === 'Scalar' && item.text === undefined) continue
+      const keyString = isArray ? '' : quoteKey(prepared.keys[i]) + keySeparator
+      const comments = annotations?.[isArray ? String(i) : prepared.keys[i]]
+      const before = comments?.before.map(c => itemIndent + c).join('') ?? ''
+      yield (empty ? isArray ? '[' : '{' : ',' + after) + before + itemIndent + keyString
+      after = comments === undefined || comments.after.length === 0 ? '' : ' ' + comments.after.join(' ')
+      empty = false
+      if (item.type === 'Scalar') {
+        yield item.text ?? 'null'
+      } else {
+        yield* streamValue(item, depth + 1, width(keyString))
+      }
+    }
+    if (empty) {
+      yield isArray ? '[]' : '{}'
+    } else {
+      yield (trailingCommas ? ',' : '') + after + (minify ? '' : '\n' + prefixIndent + indent.repeat(depth)) + (isArray ? ']' : '}')
+    }
+  }
+
+  /**
+   * Checks if an array or object has to be prepared as a whole before it is
+   * streamed, because it could be a table, stay inline, or be a compact or
+   * aligned array. Otherwise its items are prepared one at a time as they are
+   * written. The items that are looked at to decide this are prepared in
+   * order with everything in them, so the replacer is still called in the
+   * same order as in JSON.stringify.
+   */
+  function needsAllItems(prepared: PreparedContainer): boolean {
+    if (containsComments(prepared.value) || annotate !== undefined || allowInline !== undefined || allowTable !== undefined) {
+      return true
+    }
+    const { layout } = prepared
+    const isArray = prepared.type === 'array'
+    const previous = previousAt(prepared.path)
+    if (previous !== undefined && previous.type !== (isArray ? 'MultilineArray' : 'MultilineObject')) return true
+    const count = isArray ? prepared.value.length : prepared.keys.length
+    // Tables need every item to be an array or object, and compact and
+    // aligned arrays need none of them to be
+    let table = previous === undefined && (isArray ? layout.tableArrays : layout.tableObjects)
+    let scalars = isArray && (layout.compactLongArrays && count > layout.maxArrayItems || layout.decimalAlignment !== 'none')
+    let inline = previous === undefined && (!isArray || count <= layout.maxArrayItems)
+    let written = 0
+    let total = 2
+    for (let i = 0; i < count && (table || scalars || inline); i++) {
+      const item = peekItem(prepared, i)
+      if (item.type !== 'Scalar') prepareItems(item)
+      if (!isArray && isSkipped(item)) continue
+      written++
+      if (item.type === 'Scalar') table = false
+      else scalars = false
+      if (inline) {
+        total += inlineWidth(item) + 2 + (isArray ? 0 : keyWidth(prepared.keys[i]))
+        inline = total <= layout.maxLineLength && !isMultiline(item) && (isArray || written <= layout.maxObjectProperties)
+      }
+    }
+    return table || scalars || inline
+  }
+
+  /**
+   * Checks if an array could be formatted as a compact long array, which
+   * needs all of its items to be formatted first.
+   */
+  function mayBeCompact(prepared: PreparedContainer): boolean {
+    const { value, layout } = prepared
+    if (!layout.compactLongArrays || value.length <= layout.maxArrayItems) return false
+    for (let i = 0; i < value.length; i++) {
+      if (peekItem(prepared, i).type !== 'Scalar') return false
+    }
+    return true
+  }
+
+  /**
+   * Checks if the items of an array could be aligned by their decimal points,
+   * which needs all of them to be formatted first.
+   */
+  function mayBeAligned(prepared: PreparedContainer): boolean {
+    if (prepared.layout.decimalAlignment === 'none') return false
+    for (let i = 0; i < prepared.value.length; i++) {
+      const item = peekItem(prepared, i)
+      if (item.type !== 'Scalar' || item.text === undefined || Number.isNaN(Number(item.text))) return false
+    }
+    return true
+  }
+
+  /**
+   * Formats the cells of a column that isn't a nested table. Returns `null`
+   * if any of them don't fit on a single line. If they are all numbers,
+   * `align` is the position of the decimal point that is furthest in.
+   */
+  function tableColumnCells(
+    rows: TableRows,
+    columnKey: string | number
+  ): { cells: LayoutNode[], numeric: boolean, align: number | undefined } | null {
+    const cells: LayoutNode[] = new Array(rows.items.length)
+    let numeric = true
+    let align: number | undefined
+    for (let j = 0; j < rows.items.length; j++) {
+      const row = rows.items[j]
+      const cell = peekCell(row, columnKey)
+      if (cell === undefined) continue
+      let node = cell.type === 'Scalar' ? cell.text === undefined ? undefined : cell as ScalarNode : renderValue(cell, 0, false, true).node
+      // Arrays have null in place of values that can't be written, like in
+      // JSON.stringify, and objects leave the cell empty
+      if (node === undefined && row.type === 'array' && cell.type === 'Scalar') node = scalar(cell.path, undefined, 'null') as ScalarNode
+      if (node === undefined) continue
+      if (!isSingleLine(node)) return null
+      cells[j] = node
+      if (!numeric) continue
+      const point = node.type === 'Scalar' ? numberDecimalIndex(node.text) : NaN
+      numeric = !Number.isNaN(point)
+      align = numeric ? Math.max(align ?? point, point) : undefined
+    }
+    return { cells, numeric, align }
+  }
+
+  /**
+   * Formats the values in a column of a table as a nested table. Returns
+   * `null` if they can't be one, or `undefined` if they would be a nested
+   * table with too many columns, in which case the parent can't be a table
+   * either.
+   */
+  function subtable(
+    rows: TableRows,
+    columnKey: string | number,
+    previousColumns: TableColumn[] | undefined
+  ): TableBody | null | undefined {
+    // Most columns have values that aren't arrays or objects, which is found
+    // without making a list of them
+    for (let j = 0; j < rows.items.length; j++) {
+      const cell = peekCell(rows.items[j], columnKey)
+      if (cell !== undefined && cell.type === 'Scalar' && !isSkipped(cell)) return null
+    }
+    const subrows = tableRows(rows.items.map(row => peekCell(row, columnKey)))
+    // Arrays have null in place of missing values, which can't be a row
+    if (subrows === null || rows.items.some((row, j) => row?.type === 'array' && isMissing(subrows.values[j]))) return null
+    const subcolumnOrder = tableColumnOrder(subrows)
+    if (subcolumnOrder === null) return null
+    const isArray = Array.isArray(subrows.values.find(e => e !== undefined))
+    const subLayout = subrows.layout
+    if (subcolumnOrder.length > (isArray ? subLayout.maxArrayItems : subLayout.maxObjectProperties)) return undefined
+    // Nested tables that don't fit on a line are never used, so the cells are
+    // tried instead
+    if (isTooWide(subrows, isArray ? subcolumnOrder.map((_, i) => i) : subcolumnOrder, subLayout.maxLineLength)) return null
+    return isArray ?
+      tableOfArrays(subrows, subcolumnOrder.length, subLayout.maxLineLength, previousColumns) :
+      tableOfObjects(subrows, subcolumnOrder, subLayout.maxLineLength, previousColumns)
+  }
+
+  /**
+   * Checks if the rows of a table would be wider than the given width,
+   * without formatting any of the cells. Cells are at least as wide as they
+   * are on a single line, so the columns start at least this far in. This
+   * gives up on nested tables that can't fit before the nested tables in
+   * their columns are tried. Other tables are checked with
+   * {@link rowsTooWide} before their rows are looked at.
+   */
+  function isTooWide(rows: TableRows, columnKeys: (string | number)[], maxRowWidth: number): boolean {
+    let columnStart = 2
+    for (const columnKey of columnKeys) {
+      let columnWidth: number | undefined
+      for (const row of rows.items) {
+        const cell = peekCell(row, columnKey)
+        // Objects leave the cells of values that can't be written empty
+        if (cell === undefined || row.type === 'object' && isSkipped(cell)) continue
+        // Cells that are wider than the row can be on their own don't fit
+        columnWidth = Math.max(columnWidth ?? 0, inlineWidth(cell, maxRowWidth))
+      }
+      if (columnWidth === undefined) {
+        columnStart += 2
+        continue
+      }
+      columnStart += (typeof columnKey === 'string' ? keyWidth(columnKey) : 0) + columnWidth + 2
+      if (columnStart > maxRowWidth) return true
+    }
+    return false
+  }
+
+  /**
+   * Formats the rows of a table of arrays. If the previous layout had the
+   * same columns, they are made at least as wide as they were.
+   *
+   * @param maxRowWidth - Returns `null` as soon as a row is known to be
+   * wider than this, since the columns only get wider.
+   */
+  function tableOfArrays(
+    rows: TableRows,
+    columnCount: number,
+    maxRowWidth: number,
+    previousColumns?: TableColumn[]
+  ): TableBody | null {
+    const { maxLineLength, tablePadEndOfRows, tableDecimalAlignment } = rows.layout
+    const columns: TableColumn[] = new Array(columnCount)
+    const cells: (LayoutNode | TableRow)[][] = rows.items.map(() => new Array(columnCount))
+    // Where the next column starts in the rows
+    let columnStart = 2
+    for (let i = 0; i < columnCount; i++) {
+      const previous = previousColumns?.find(c => c.key === i)
+      const sub = subtable(rows, i, previous?.table?.columns)
+      if (sub === undefined) return null
+      const kept = previous !== undefined && (previous.table !== undefined) === (sub !== null) ? previous : undefined
+      if (sub !== null) {
+        columns[i] = { key: i, width: kept?.width ?? 0, table: { columns: sub.columns, padEndOfRows: sub.padEndOfRows } }
+        for (let j = 0; j < sub.rows.length; j++) {
+          if (sub.rows[j] === undefined) continue
+          cells[j][i] = sub.rows[j]
+          columns[i].width = Math.max(columns[i].width, renderer.measureCell(sub.rows[j], columns[i], 'array'))
+        }
+      } else {
+        const columnCells = tableColumnCells(rows, i)
+        if (columnCells === null) return null
+        columns[i] = { key: i, width: kept?.width ?? 0 }
+        for (let j = 0; j < rows.items.length; j++) {
+          const cell = columnCells.cells[j]
+          if (cell === undefined) continue
+          if (renderer.measure(cell) > maxLineLength) return null
+          cells[j][i] = cell
+        }
+        if (tableDecimalAlignment && columnCells.numeric) {
+          columns[i].align = columnCells.align
+          if (kept?.align !== undefined) columns[i].align = Math.max(columns[i].align, kept.align)
+        }
+        for (const cell of columnCells.cells) {
+          if (cell === undefined) continue
+          columns[i].width = Math.max(columns[i].width, renderer.measureCell(cell, columns[i], 'array'))
         }
-        if (numeric) {
-          columns[columnKey] = decimalAlignment(columns[columnKey])
+      }
+      columnStart += columns[i].width + 2
+      // Rows with a cell in this column are at least as wide as the columns
+      // so far
+      if (columnStart > maxRowWidth && cells.some(row => row[i] !== undefined)) return null
+    }
+
+    return {
+      columns,
+      rows: rows.items.map((row, j) => row === undefined || row.type === 'Scalar' ? undefined : {
+        type: 'TableRow',
+        path: row.path,
+        value: row.value,
+        kind: 'array',
+        cells: trimCells(cells[j])
+      }),
+      padEndOfRows: tablePadEndOfRows
+    }
+  }
+
+  /**
+   * Same as {@link tableOfArrays}, but for tables of objects.
+   */
+  function tableOfObjects(
+    rows: TableRows,
+    columnOrder: string[],
+    maxRowWidth: number,
+    previousColumns?: TableColumn[]
+  ): TableBody | null {
+    const { maxLineLength, tablePadEndOfRows, tableDecimalAlignment } = rows.layout
+    const columns: TableColumn[] = new Array(columnOrder.length)
+    const cells: (LayoutNode | TableRow)[][] = rows.items.map(() => new Array(columnOrder.length))
+    // Where the next column starts in the rows
+    let columnStart = 2
+    for (let i = 0; i < columnOrder.length; i++) {
+      const columnKey = columnOrder[i]
+      const previous = previousColumns?.find(c => c.key === columnKey)
+      const sub = subtable(rows, columnKey, previous?.table?.columns)
+      if (sub === undefined) return null
+      const kept = previous !== undefined && (previous.table !== undefined) === (sub !== null) ? previous : undefined
+      if (sub !== null) {
+        columns[i] = { key: columnKey, width: kept?.width ?? 0, table: { columns: sub.columns, padEndOfRows: sub.padEndOfRows } }
+        for (let j = 0; j < sub.rows.length; j++) {
+          if (sub.rows[j] === undefined) continue
+          cells[j][i] = sub.rows[j]
+          columns[i].width = Math.max(columns[i].width, renderer.measureCell(sub.rows[j], columns[i], 'object'))
+        }
+      } else {
+        const columnCells = tableColumnCells(rows, columnKey)
+        if (columnCells === null) return null
+        columns[i] = { key: columnKey, width: kept?.width ?? 0 }
+        if (tableDecimalAlignment && columnCells.numeric) {
+          columns[i].align = columnCells.align
+          if (kept?.align !== undefined) columns[i].align = Math.max(columns[i].align, kept.align)
         }
-        for (let j = 0; j < rowCount; j++) {
-          if (column[j] === undefined) continue
-          const s = jsonKey + ': ' + columns[columnKey][j]
-          const sl = s.length
-          if (sl > maxLineLength) return null
-          columnWidths[columnKey] = Math.max(columnWidths[columnKey] ?? 0, sl)
-          columns[columnKey][j] = s
+        for (let j = 0; j < rows.items.length; j++) {
+          const cell = columnCells.cells[j]
+          if (cell === undefined) continue
+          const cellWidth = renderer.measureCell(cell, columns[i], 'object')
+          if (cellWidth > maxLineLength) return null
+          columns[i].width = Math.max(columns[i].width, cellWidth)
+          cells[j][i] = cell
+        }
+      }
+      columnStart += columns[i].width + 2
+      // Rows with a cell in this column are at least as wide as the columns
+      // so far
+      if (columnStart > maxRowWidth && cells.some(row => row[i] !== undefined)) return null
+    }
+
+    return {
+      columns,
+      rows: rows.items.map((row, j) => row === undefined || row.type === 'Scalar' ? undefined : {
+        type: 'TableRow',
+        path: row.path,
+        value: row.value,
+        kind: 'object',
+        cells: trimCells(cells[j])
+      }),
+      padEndOfRows: tablePadEndOfRows
+    }
+  }
+
+  function formatArray(
+    prepared: PreparedContainer,
+    items: LayoutNode[],
+    nestedItems: boolean,
+    keyLength: number = 0,
+    allowInline: boolean = true,
+    comments?: LayoutComments
+  ): LayoutNode {
+    const { maxLineLength, maxArrayItems, compactLongArrays, decimalAlignment } = prepared.layout
+    const base = { path: prepared.path, value: prepared.value }
+    if (minify) return { type: 'InlineArray', ...base, items }
+    const points = decimalAlignment === 'none' ? undefined : decimalPoints(items)
+    const align = points === undefined || points.length === 0 ? undefined : arrMax(points)
+    if (comments !== undefined) return { type: 'MultilineArray', ...base, items, comments, align }
+    if (items.length === 0) return { type: 'InlineArray', ...base, items }
+    const inline = inlineArray(prepared, items, nestedItems, keyLength, allowInline)
+    if (inline !== null) return inline
+    if (
+      compactLongArrays &&
+      items.length > maxArrayItems &&
+      items.every(item => item.type === 'Scalar')
+    ) {
+      const itemLengths = items.map(item => renderer.measure(item))
+      const min = arrMin(itemLengths)
+      const max = arrMax(itemLengths)
+      const mean = sum(itemLengths) / items.length
+      if ((max - min) < Math.max(4, mean * 0.25)) {
+        const columns = findMaxItemsWide(
+          items.length,
+          columnCount => getGridColumns(itemLengths, points, columnCount, decimalAlignment === 'array'),
+          maxLineLength
+        )
+        return { type: 'CompactGrid', ...base, items: items as ScalarNode[], ...columns }
+      }
+    }
+    return { type: 'MultilineArray', ...base, items, align }
+  }
+
+  /**
+   * Gets the positions of the decimal points of the items of an array, or
+   * `undefined` if any of them aren't numbers.
+   */
+  function decimalPoints(items: (LayoutNode | string)[]): number[] | undefined {
+    const points: number[] = new Array(items.length)
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i]
+      const text = typeof item === 'string' ? item : item.type === 'Scalar' ? item.text : undefined
+      const point = text === undefined ? NaN : numberDecimalIndex(text)
+      if (Number.isNaN(point)) return undefined
+      points[i] = point
+    }
+    return points
+  }
+
+  function formatObject(
+    prepared: PreparedContainer,
+    properties: LayoutProperty[],
+    nestedItems: boolean,
+    keyLength: number = 0,
+    allowInline: boolean = true,
+    comments?: LayoutComments
+  ): LayoutNode {
+    const base = { path: prepared.path, value: prepared.value }
+    if (minify) return { type: 'InlineObject', ...base, properties }
+    if (comments !== undefined) return { type: 'MultilineObject', ...base, properties, comments }
+    if (properties.length === 0) return { type: 'InlineObject', ...base, properties }
+    return inlineObject(prepared, properties, nestedItems, keyLength, allowInline) ??
+      { type: 'MultilineObject', ...base, properties }
+  }
+
+  /**
+   * Formats an array on a single line, or returns `null` if it doesn't fit.
+   */
+  function inlineArray(
+    prepared: PreparedContainer,
+    items: LayoutNode[],
+    nestedItems: boolean,
+    keyLength: number,
+    allowInline: boolean
+  ): InlineArrayNode | null {
+    const { maxLineLength, maxArrayItems, maxArrayItemLength } = prepared.layout
+    if (
+      !allowInline ||
+      nestedItems ||
+      items.length > maxArrayItems ||
+      !items.every(item => isSingleLine(item) && renderer.measure(item) <= maxArrayItemLength)
+    ) return null
+    const node: InlineArrayNode = { type: 'InlineArray', path: prepared.path, value: prepared.value, items }
+    return keyLength + renderer.measure(node) <= maxLineLength ? node : null
+  }
+
+  /**
+   * Formats an object on a single line, or returns `null` if it doesn't fit.
+   */
+  function inlineObject(
+    prepared: PreparedContainer,
+    properties: LayoutProperty[],
+    nestedItems: boolean,
+    keyLength: number,
+    allowInline: boolean
+  ): InlineObjectNode | null {
+    const { maxLineLength, maxObjectProperties } = prepared.layout
+    if (!allowInline || nestedItems || properties.length > maxObjectProperties) return null
+    const node: InlineObjectNode = { type: 'InlineObject', path: prepared.path, value: prepared.value, properties }
+    if (!properties.every(p => isSingleLine(p.value)) || keyLength + renderer.measure(node) > maxLineLength) return null
+    return node
+  }
+
+  /**
+   * Formats an array with the same layout that it had in the previous
+   * output, or returns `null` if that layout doesn't fit anymore. Compact
+   * long arrays keep their number of columns, and their columns are only
+   * made wider if an item doesn't fit.
+   */
+  function previousArrayLayout(
+    prepared: PreparedContainer,
+    items: LayoutNode[],
+    nestedItems: boolean,
+    keyLength: number,
+    allowInline: boolean,
+    previous: Exclude<LayoutNode, ScalarNode> | TableRow
+  ): LayoutNode | null {
+    const base = { path: prepared.path, value: prepared.value }
+    if (previous.type === 'InlineArray' || previous.type === 'TableRow' && previous.kind === 'array') {
+      return items.length === 0 ? { type: 'InlineArray', ...base, items } : inlineArray(prepared, items, nestedItems, keyLength, allowInline)
+    }
+    const { maxLineLength, maxArrayItems, compactLongArrays, decimalAlignment } = prepared.layout
+    const points = decimalAlignment === 'none' ? undefined : decimalPoints(items)
+    if (previous.type === 'MultilineArray') {
+      return items.length > 0 ? { type: 'MultilineArray', ...base, items, align: points && arrMax(points) } : null
+    }
+    if (previous.type === 'CompactGrid') {
+      if (!compactLongArrays || items.length <= maxArrayItems || !items.every(item => item.type === 'Scalar')) return null
+      const itemLengths = items.map(item => renderer.measure(item))
+      const current = getGridColumns(itemLengths, points, previous.columnWidths.length, decimalAlignment === 'array')
+      // The columns keep their previous widths, but grow to fit the new items
+      let columnWidths = previous.columnWidths.map((previousWidth, i) => Math.max(previousWidth, current.columnWidths[i] ?? 0))
+      let align = current.align
+      if (current.align !== undefined && previous.align !== undefined) {
+        // The decimal points and the ends of the columns stay where they were,
+        // unless the new items need more space
+        columnWidths = []
+        align = []
+        let start = 0
+        let previousStart = 0
+        for (let i = 0; i < previous.columnWidths.length; i++) {
+          const currentAlign = current.align[i] ?? 0
+          align[i] = Math.max(currentAlign, previousStart + previous.align[i] - start)
+          columnWidths[i] = Math.max(
+            align[i] + (current.columnWidths[i] ?? 0) - currentAlign,
+            previousStart + previous.columnWidths[i] - start
+          )
+          start += columnWidths[i] + 2
+          previousStart += previous.columnWidths[i] + 2
         }
+      }
+      if (sum(columnWidths) + (columnWidths.length - 1) * 2 > maxLineLength) return null
+      return { type: 'CompactGrid', ...base, items: items as ScalarNode[], columnWidths, align }
+    }
+    return null
+  }
+
+  /**
+   * Same as {@link previousArrayLayout}, but for objects.
+   */
+  function previousObjectLayout(
+    prepared: PreparedContainer,
+    properties: LayoutProperty[],
+    nestedItems: boolean,
+    keyLength: number,
+    allowInline: boolean,
+    previous: Exclude<LayoutNode, ScalarNode> | TableRow
+  ): LayoutNode | null {
+    const base = { path: prepared.path, value: prepared.value }
+    if (previous.type === 'InlineObject' || previous.type === 'TableRow' && previous.kind === 'object') {
+      return properties.length === 0 ?
+        { type: 'InlineObject', ...base, properties } :
+        inlineObject(prepared, properties, nestedItems, keyLength, allowInline)
+    }
+    if (previous.type === 'MultilineObject') {
+      return properties.length > 0 ? { type: 'MultilineObject', ...base, properties } : null
+    }
+    return null
+  }
+
+  /**
+   * Same as {@link renderValue}, but writes the value as text right away
+   * instead of making its layout nodes, which is all that {@link stringify}
+   * needs. Arrays and objects that contain comments are still laid out with
+   * {@link renderValue}, and tables are rendered from their nodes.
+   *
+   * @returns The text, or `undefined` for values that aren't written. Whether
+   * an array or object ended up on a single line is kept in it.
+   */
+  function writeValue(prepared: PreparedValue, keyLength: number = 0, allowTables: boolean = true): string | undefined {
+    if (prepared.type === 'Scalar') return prepared.text
+    if (containsComments(prepared.value)) {
+      prepareItems(prepared)
+      const { node, nested } = renderValue(prepared, keyLength, allowTables)
+      prepared.singleLine = isSingleLine(node)
+      prepared.nested = nested
+      return renderer.render(node, prepared.depth)
+    }
+    if (allowTables) {
+      const table = getTable(prepared)
+      if (table !== null) {
+        prepared.singleLine = false
+        prepared.nested = true
+        return renderer.render(table, prepared.depth)
+      }
+    }
+    return prepared.type === 'array' ? writeArray(prepared, keyLength) : writeObject(prepared, keyLength)
+  }
 
-      } else { // tableDecimalAlignment is false
-        for (let j = 0; j < column.length; j++) {
-          const v = column[j]
-          if (v === undefined) continue
-          const s = jsonKey + ': ' + processValue(columnKey, v, 0, rowObjs, 0, false).result
-          const sl = s.length
-          if (sl > maxLineLength || s.includes('\n')) return null
-          columnWidths[columnKey] = Math.max(columnWidths[columnKey] ?? 0, sl)
-          columns[columnKey][j] = s
+  /**
+   * Writes an array like {@link formatArray} lays it out, after writing its
+   * items.
+   */
+  function writeArray(prepared: PreparedContainer, keyLength: number): string {
+    const { value, layout, depth } = prepared
+    const { maxLineLength, maxArrayItems, maxArrayItemLength, compactLongArrays, decimalAlignment } = layout
+    // Nothing looks at the items again once they are written, other than
+    // allowInline, which measures them, so they are let go of right away
+    const getItem = allowInline === undefined ? takeItem : peekItem
+    const count = value.length
+    const texts: string[] = new Array(count)
+    let nested = false
+    let nestedItems = false
+    let singleLine = true
+    let scalars = true
+    let itemsFit = true
+    let total = 0
+    for (let i = 0; i < count; i++) {
+      const primitive = primitiveText(prepared, i)
+      const item = primitive === undefined ? plainContainer(prepared, i) ?? getItem(prepared, i) : undefined
+      const text = primitive ?? writeValue(item) ?? 'null'
+      texts[i] = text
+      const itemNested = item === undefined ? text === 'null' : isNested(item, true)
+      nestedItems ||= nested && itemNested
+      nested ||= itemNested
+      if (item !== undefined && item.type !== 'Scalar') scalars = false
+      if (!singleLine) continue
+      if (item === undefined || item.type === 'Scalar' || item.singleLine) {
+        const itemWidth = item === undefined || item.type === 'Scalar' ? width(text) : item.inlineWidth
+        total += itemWidth
+        itemsFit &&= itemWidth <= maxArrayItemLength
+      } else {
+        singleLine = false
+      }
+    }
+    prepared.nested = nested
+    const inline = isInlineAllowed(prepared, false)
+    if (singleLine) prepared.inlineWidth = total + (count === 0 ? 2 : minify ? count + 1 : count * 2 + 2)
+    if (minify) {
+      prepared.singleLine = true
+      return joinItems('[', texts, ',', ']')
+    }
+    if (
+      count === 0 ||
+      inline && !nestedItems && count <= maxArrayItems && singleLine && itemsFit &&
+      keyLength + prepared.inlineWidth <= maxLineLength
+    ) {
+      prepared.singleLine = true
+      return count === 0 ? '[]' : joinItems('[ ', texts, ', ', ' ]')
+    }
+    prepared.singleLine = false
+    const itemLine = lineStart(depth + 1)
+    const end = (trailingCommas ? ',' : '') + lineStart(depth) + ']'
+    // Only needed once the items are on lines of their own
+    const points = decimalAlignment === 'none' || !scalars ? undefined : decimalPoints(texts)
+    if (compactLongArrays && count > maxArrayItems && scalars) {
+      const widths: number[] = new Array(count)
+      let min = Infinity
+      let max = 0
+      for (let i = 0; i < count; i++) {
+        widths[i] = width(texts[i])
+        min = Math.min(min, widths[i])
+        max = Math.max(max, widths[i])
+      }
+      // The items are all scalars, so their widths were added up already
+      if ((max - min) < Math.max(4, total / count * 0.25)) {
+        const { columnWidths, align } = findMaxItemsWide(
+          count,
+          columnCount => getGridColumns(widths, points, columnCount, decimalAlignment === 'array'),
+          maxLineLength
+        )
+        const itemsWide = columnWidths.length
+        const separator = ',' + itemLine
+        let text = '['
+        let previousWidth = 0
+        for (let i = 0; i < count; i++) {
+          const column = i % itemsWide
+          const pad = align === undefined ? 0 : Math.max(0, align[column] - points[i])
+          if (column === 0) {
+            text += (i > 0 ? separator : itemLine) + padding(pad, false) + texts[i]
+          } else {
+            const gap = Math.max(0, columnWidths[column - 1] - previousWidth + 1)
+            text += padding(gap + pad, true) + texts[i]
+          }
+          previousWidth = pad + widths[i]
         }
+        return text + end
       }
     }
+    if (points !== undefined && points.length > 0) {
+      const align = arrMax(points)
+      for (let i = 0; i < count; i++) texts[i] = padding(Math.max(0, align - points[i]), false) + texts[i]
+    }
+    return joinLines('[', texts, itemLine, end)
+  }
 
-    const table: string[] = []
-    for (let i = 0; i < rowObjs.length; i++) {
-      if (rowObjs[i] === undefined) {
-        table.push('')
+  /**
+   * Same as {@link writeArray}, but for objects, which are laid out like
+   * {@link formatObject} does.
+   */
+  function writeObject(prepared: PreparedContainer, keyLength: number): string {
+    const { keys, layout, depth } = prepared
+    const { maxLineLength, maxObjectProperties } = layout
+    const getItem = allowInline === undefined ? takeItem : peekItem
+    const texts: string[] = new Array(keys.length)
+    let count = 0
+    let nested = false
+    let nestedItems = false
+    let singleLine = true
+    let total = 0
+    for (let i = 0; i < keys.length; i++) {
+      const primitive = primitiveText(prepared, i)
+      const item = primitive === undefined ? plainContainer(prepared, i) ?? getItem(prepared, i) : undefined
+      // The keys of the properties that are skipped are only left out once
+      // all of the items are prepared, which isn't always done before this
+      if (item !== undefined && isSkipped(item)) continue
+      const key = keyText(keys[i])
+      const text = primitive ?? writeValue(item, key.width)
+      texts[count++] = key.text + text
+      nested ||= item === undefined ? text === 'null' : isNested(item, false)
+      if (item === undefined || item.type === 'Scalar') {
+        if (singleLine) total += key.width + width(text)
         continue
       }
-      let row = '{ '
-      const lastFilledColumn = columnOrder.findLastIndex(e => e in rowObjs[i])
-      const end = tablePadEndOfRows ? columnOrder.length : lastFilledColumn + 1
-      for (let columnIndex = 0; columnIndex < end; columnIndex++) {
-        const columnKey = columnOrder[columnIndex]
-        if (columns[columnKey][i] === undefined) {
-          row += ' '.repeat(columnWidths[columnKey] + 2)
-          continue
-        }
-        row += columns[columnKey][i]
-          + (columnIndex !== lastFilledColumn ? ',' : '')
-          + ' '.repeat(columnWidths[columnKey] - columns[columnKey][i].length + 1)
+      nestedItems ||= item.nested
+      if (item.singleLine) {
+        total += key.width + item.inlineWidth
+      } else {
+        singleLine = false
       }
-      table.push(row + '}')
     }
-    return table
-  }
-
-  function formatArray(
-    items: string[],
-    depth: number,
-    nestedItems: boolean,
-    keyLength: number = 0,
-    allowInline: boolean = true
-  ): string {
-    if (items.length === 0) return '[]'
+    if (count < texts.length) texts.length = count
+    prepared.nested = nested
+    const inline = isInlineAllowed(prepared, false)
+    if (singleLine) prepared.inlineWidth = total + (count === 0 ? 2 : minify ? count + 1 : count * 2 + 2)
+    if (minify) {
+      prepared.singleLine = true
+      return joinItems('{', texts, ',', '}')
+    }
     if (
-      allowInline &&
-      !nestedItems &&
-      items.length <= maxArrayItems &&
-      items.every(item => item.length <= maxArrayItemLength)
+      count === 0 ||
+      inline && !nestedItems && count <= maxObjectProperties && singleLine &&
+      keyLength + prepared.inlineWidth <= maxLineLength
     ) {
-      const line = '[ ' + items.join(', ') + ' ]'
-      if (keyLength + line.length <= maxLineLength && !line.includes('\n')) {
-        return line
-      }
+      prepared.singleLine = true
+      return count === 0 ? '{}' : joinItems('{ ', texts, ', ', ' }')
     }
-    const arrIndent = indent.repeat(depth + 1)
+    prepared.singleLine = false
+    const itemLine = lineStart(depth + 1)
+    return joinLines('{', texts, itemLine, (trailingCommas ? ',' : '') + lineStart(depth) + '}')
+  }
+
+  /**
+   * Prepares the root value, and everything in it if `all` is set, which
+   * laying it out with {@link renderValue} needs. Otherwise the items are
+   * prepared when they are needed, like when they are streamed.
+   * {@link StringifyOptions.annotate annotate} is also called for it, but
+   * comments can only be put on items, so returning one for the root value
+   * throws.
+   */
+  function prepareRoot(value: any, all: boolean): PreparedValue {
+    const prepared = prepareValue('', value, { '': value }, new ValuePath([]), undefined)
+    if (prepared.type !== 'Scalar' && all) prepareItems(prepared)
     if (
-      compactLongArrays &&
-      items.length > maxArrayItems &&
-      items.every(item => !item.includes('\n') && item[0] !== '[' && item[0] !== '{')
+      annotate !== undefined &&
+      !(prepared.type === 'Scalar' && prepared.text === undefined) &&
+      toItemComments(annotate(prepared.path, '', prepared.value)) !== undefined
     ) {
-      const itemLengths = items.map(item => item.length)
-      const min = arrMin(itemLengths)
-      const max = arrMax(itemLengths)
-      const mean = sum(itemLengths) / items.length
-      if ((max - min) < Math.max(4, mean * 0.25)) {
-        const [ itemsWide, columnWidths ] = findMaxItemsWide(items, itemLengths, maxLineLength)
-        return '[\n' + prefixIndent + arrIndent + Array(Math.ceil(items.length / itemsWide)).fill(null).map((_, i) => {
-          return joinColumns(items.slice(i * itemsWide, (i + 1) * itemsWide), columnWidths)
-        }).join(',\n' + prefixIndent + arrIndent) + '\n' + indent.repeat(depth) + ']'
-      }
+      throw new Error(`'annotate' can't add comments to the root value.`)
     }
-    return '[\n' + prefixIndent + arrIndent + items.join(',\n' + prefixIndent + arrIndent) + '\n' + prefixIndent + indent.repeat(depth) + ']'
+    return prepared
   }
 
-  function formatObject(
-    items: string[],
-    depth: number,
-    nestedItems: boolean,
-    keyLength: number = 0,
-    allowInline: boolean = true
-  ): string {
-    if (items.length === 0) return '{}'
-    if (allowInline && !nestedItems && items.length <= maxObjectProperties) {
-      const line = '{ ' + items.join(', ') + ' }'
-      if (keyLength + line.length <= maxLineLength && !line.includes('\n')) {
-        return line
-      }
+  /**
+   * Lays out a prepared value and writes it, with {@link writeValue} unless
+   * layout nodes are needed.
+   */
+  function layoutText(prepared: PreparedValue, keyLength: number = 0, allowTables: boolean = true): string | undefined {
+    if (!writeNodes) return writeValue(prepared, keyLength, allowTables)
+    const { node } = renderValue(prepared, keyLength, allowTables)
+    return node === undefined ? undefined : renderer.render(node, prepared.type === 'Scalar' ? 0 : prepared.depth)
+  }
+
+  return {
+    layout: value => renderValue(prepareRoot(value, true)).node,
+    write: value => layoutText(prepareRoot(value, writeNodes)),
+    stream: value => streamValue(prepareRoot(value, false), 0),
+    renderer
+  }
+}
+
+/**
+ * An array or object that is currently being processed, linked to its parent.
+ */
+type Ancestor = {
+  value: any
+  path: ValuePath
+  /**
+   * How many arrays and objects it is in.
+   */
+  depth: number
+  parent: Ancestor | undefined
+  layout: Layout
+}
+
+/**
+ * A value that has been replaced and converted, but not formatted yet.
+ * Numbers, strings, and other values that aren't arrays or objects are
+ * formatted right away, and are then the nodes of their layouts.
+ */
+type PreparedValue = PreparedScalar | PreparedContainer
+
+/**
+ * A {@link ScalarNode}, but with `undefined` text for values that aren't
+ * written, like functions.
+ */
+type PreparedScalar = Omit<ScalarNode, 'path' | 'text'> & { path: ValuePath | undefined, text: string | undefined }
+
+/**
+ * An array or object that is prepared. It is also the ancestor of its items.
+ */
+type PreparedContainer = Ancestor & {
+  type: 'array' | 'object'
+  key: string
+  parentObj: any
+  /**
+   * The keys of an object in the order they are written. The ones that are
+   * skipped are left out once all of the items are prepared.
+   */
+  keys: string[] | undefined
+  /**
+   * Items that have been prepared but not formatted yet, by index in the
+   * array or in {@link PreparedContainer.keys keys}.
+   */
+  items: (PreparedValue | undefined)[]
+  /**
+   * The comments for the items from
+   * {@link StringifyOptions.annotate annotate}, once they are known.
+   */
+  annotations?: Record<string, ItemComments> | null
+  /**
+   * If anything inside the items gets comments, once it is known.
+   */
+  annotatedItems?: boolean
+  /**
+   * The layouts of the items, once they are decided.
+   */
+  renderedItems?: RenderedItems
+  /**
+   * The table it is formatted as, or `null` if it can't be one, once that is
+   * tried.
+   */
+  table?: TableNode | null
+  /**
+   * Whether it is going to be formatted on multiple lines, once that is
+   * checked.
+   */
+  multiline?: boolean
+  /**
+   * The results of {@link StringifyOptions.allowInline allowInline} for it
+   * on its own and as a table cell, once it is called.
+   */
+  inlineAllowed?: boolean
+  cellInlineAllowed?: boolean
+  /**
+   * The estimated width of it on a single line, once that is measured. This
+   * is its actual width once it is written on a single line.
+   */
+  inlineWidth?: number
+  /**
+   * Whether all of its items are prepared and the keys of the ones that are
+   * skipped are left out, once that is done with {@link settleItems}.
+   */
+  settled?: boolean
+  /**
+   * Whether it was written on a single line, and whether it contains arrays
+   * or objects like {@link RenderedValue.nested}, once it is written as text
+   * with `writeValue`.
+   */
+  singleLine?: boolean
+  nested?: boolean
+}
+
+/**
+ * The layout of a value, and whether it contains arrays or objects.
+ */
+type RenderedValue = {
+  node: LayoutNode | undefined
+  nested: boolean
+}
+
+/**
+ * The layouts of the items of an array, or of the properties of an object.
+ */
+type RenderedItems = {
+  items: LayoutNode[] | undefined
+  properties: LayoutProperty[] | undefined
+  /**
+   * If any of the items are arrays or objects.
+   */
+  nested: boolean
+  /**
+   * If any of the properties contain arrays or objects, or if more than one
+   * of the items of an array are arrays or objects. Either keeps it from
+   * being inlined.
+   */
+  nestedItems: boolean
+}
+
+/**
+ * The rows of a table that is being tried, with the values that they were
+ * replaced and converted to.
+ */
+type TableRows = {
+  items: (PreparedValue | undefined)[]
+  values: any[]
+  layout: Layout
+}
+
+/**
+ * The rows and columns of a table, before it is known what the table is
+ * made from.
+ */
+type TableBody = {
+  columns: TableColumn[]
+  rows: (TableRow | undefined)[]
+  padEndOfRows: boolean
+  lineBreaks?: number[]
+}
+
+/**
+ * Makes the node of a value that isn't an array or object.
+ */
+function scalar(path: ValuePath | undefined, value: unknown, text: string | undefined): PreparedScalar {
+  return { type: 'Scalar', path, value, text }
+}
+
+function createContainer(
+  type: 'array' | 'object',
+  key: string,
+  value: any,
+  parentObj: any,
+  path: ValuePath | undefined,
+  depth: number,
+  parent: Ancestor | undefined,
+  layout: Layout,
+  keys: string[] | undefined
+): PreparedContainer {
+  return {
+    type,
+    key,
+    value,
+    parentObj,
+    path,
+    depth,
+    parent,
+    layout,
+    keys,
+    items: new Array(type === 'array' ? value.length : keys.length),
+    // The rest is filled in later, but is already there so that all arrays
+    // and objects have the same properties, which is faster
+    annotations: undefined,
+    annotatedItems: undefined,
+    renderedItems: undefined,
+    table: undefined,
+    multiline: undefined,
+    inlineAllowed: undefined,
+    cellInlineAllowed: undefined,
+    inlineWidth: undefined,
+    settled: undefined,
+    singleLine: undefined,
+    nested: undefined
+  }
+}
+
+/**
+ * Joins the texts of items between brackets. This is faster than `join` for
+ * the short lists that are written on single lines, since the strings are
+ * only copied once at the end.
+ */
+function joinItems(open: string, texts: string[], separator: string, close: string): string {
+  let text = open
+  for (let i = 0; i < texts.length; i++) {
+    text += i > 0 ? separator + texts[i] : texts[i]
+  }
+  return text + close
+}
+
+/**
+ * How long the texts of items get before {@link joinLines} joins them into a
+ * single string.
+ */
+const joinedLength = 4096
+
+/**
+ * Joins the texts of items on lines of their own between brackets. Adding
+ * each of them to the text would make a string for each addition, and those
+ * are all kept until a large structure is written, which makes garbage
+ * collection much slower. So once the texts are long enough, the short ones
+ * are joined into single strings. The long ones already were, so they are
+ * kept as they are, and nothing is copied more than once.
+ *
+ * @param itemLine - The line break and indentation before each item.
+ */
+function joinLines(open: string, texts: string[], itemLine: string, close: string): string {
+  const separator = ',' + itemLine
+  let length = 0
+  for (let i = 0; i < texts.length; i++) length += texts[i].length
+  let text = open + itemLine
+  if (length < joinedLength) {
+    for (let i = 0; i < texts.length; i++) text += i < texts.length - 1 ? texts[i] + separator : texts[i]
+    return text + close
+  }
+  // The short texts before each long one, and after the last one
+  let start = 0
+  for (let i = 0; i <= texts.length; i++) {
+    if (i < texts.length && texts[i].length < joinedLength) continue
+    if (i > start) {
+      const short = start === 0 && i === texts.length ? texts : texts.slice(start, i)
+      text += (start > 0 ? separator : '') + short.join(separator)
+    }
+    if (i < texts.length) text += (i > 0 ? separator : '') + texts[i]
+    start = i + 1
+  }
+  return text + close
+}
+
+/**
+ * Leaves out the cells that are missing at the end of a table row, which has
+ * room for all of the columns while the table is made.
+ */
+function trimCells<T>(cells: T[]): T[] {
+  let end = cells.length
+  while (end > 0 && cells[end - 1] === undefined) end--
+  if (end < cells.length) cells.length = end
+  return cells
+}
+
+/**
+ * Gets the indices of the items of an array as keys.
+ */
+function indexKeys(count: number): string[] {
+  const keys: string[] = new Array(count)
+  for (let i = 0; i < count; i++) keys[i] = String(i)
+  return keys
+}
+
+/**
+ * Checks if a prepared value isn't written, like `undefined` and functions.
+ */
+function isSkipped(prepared: PreparedValue): boolean {
+  return prepared.type === 'Scalar' && prepared.text === undefined
+}
+
+/**
+ * Checks if a row is skipped by {@link getTableColumnOrder}.
+ */
+function isMissing(row: unknown): boolean {
+  return typeof row === 'undefined' || typeof row === 'function'
+}
+
+/**
+ * Converts `Number`, `String`, `Boolean`, and `BigInt` objects to the
+ * primitives they wrap. Other values are returned as is.
+ */
+function unbox(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null) return value
+  if (value instanceof Number) return Number(value)
+  if (value instanceof String) return String(value)
+  if (value instanceof Boolean) return Boolean.prototype.valueOf.call(value)
+  if (value instanceof BigInt) return BigInt.prototype.valueOf.call(value)
+  return value
+}
+
+function findAncestor(ancestor: Ancestor | undefined, value: object): Ancestor | undefined {
+  while (ancestor !== undefined) {
+    if (ancestor.value === value) return ancestor
+    ancestor = ancestor.parent
+  }
+  return undefined
+}
+
+/**
+ * Converts a comment returned by {@link StringifyOptions.annotate annotate}
+ * to `//` comments.
+ */
+function toItemComments(annotation: Annotation | undefined): ItemComments | undefined {
+  if (annotation === undefined) return undefined
+  const lines = (text: string | undefined) => text === undefined ? [] : text.split(/\r?\n/).map(line => ('// ' + line).trimEnd())
+  if (typeof annotation === 'string') return { before: lines(annotation), after: [] }
+  if (typeof annotation !== 'object' || annotation === null) {
+    throw new Error(`'annotate' must return a string, an object, or undefined.`)
+  }
+  return {
+    before: lines(annotation.before),
+    // Comments after the item have to stay on its line
+    after: lines(annotation.after?.replace(/\r?\n/g, ' '))
+  }
+}
+
+function getItemComments(container: object, keys: string[]): LayoutComments | undefined {
+  const comments: ContainerComments | undefined = getComments(container)
+  if (comments === undefined) return undefined
+  return {
+    items: keys.map(k => comments.items[k]),
+    end: comments.end
+  }
+}
+
+/**
+ * Reformats JSON text. This works like calling {@link stringify} on the
+ * result of `JSON.parse`, except that numbers are written exactly as they
+ * were in the original text, so `1.50` stays `1.50` and large integers don't
+ * lose precision.
+ * 
+ * With the {@link FormatOptions.jsonc jsonc} option enabled, comments are
+ * kept and stay attached to the property or item they were next to. Arrays
+ * and objects that contain comments are never inlined or formatted as
+ * tables.
+ * 
+ * Numbers that can't be represented exactly by a JavaScript number are
+ * passed to the callbacks in the options as {@link NumberLiteral} objects.
+ * 
+ * @param text - The JSON text to reformat.
+ * @param options - An optional object containing formatting options.
+ * @returns The formatted JSON string.
+ * @throws {JSONSyntaxError} If the text is not valid JSON, or JSON5 with the
+ * {@link FormatOptions.json5 json5} option.
+ */
+function format(text: string, options?: FormatOptions): string {
+  const { value, comments } = parseDocument(text, {
+    jsonc: options?.jsonc,
+    json5: options?.json5 ?? options?.syntax === 'json5'
+  })
+  const result = stringify(value, { ...options, sourceMap: false })
+  if (
+    comments.before.length === 0 && comments.after.length === 0 ||
+    getIndent(options).length === 0
+  ) return result
+
+  const prefixIndent = getPrefixIndent(options)
+  return [
+    ...comments.before.map(c => reindentComment(c, prefixIndent)),
+    result,
+    ...comments.after.map(c => reindentComment(c, prefixIndent))
+  ].join('\n' + prefixIndent)
+}
+
+/**
+ * Same as {@link stringify}, but adds syntax highlighting to the result with
+ * ANSI escape codes or HTML markup, see {@link highlight}. The layout is
+ * decided on the plain text, so line lengths and table columns line up when
+ * the result is displayed.
+ * 
+ * @param value - The value to convert to a JSON string.
+ * @param options - An optional object containing formatting and
+ * highlighting options.
+ * @returns The highlighted JSON string.
+ */
+function stringifyHighlighted(value: undefined | Function, options?: Omit<StringifyOptions, 'sourceMap'> & HighlightOptions): undefined
+function stringifyHighlighted(value: Exclude<unknown, undefined | Function>, options?: Omit<StringifyOptions, 'sourceMap'> & HighlightOptions): string
+function stringifyHighlighted(value: any, options?: Omit<StringifyOptions, 'sourceMap'> & HighlightOptions): string | undefined {
+  const result = stringify(value, { ...options, sourceMap: false })
+  return result === undefined ? undefined : highlight(result, options)
+}
+
+/**
+ * The size that {@link stringifyIterable} tries to keep its chunks at.
+ * Parts of the output that have to be formatted as a whole can be larger.
+ */
+const streamChunkSize = 16384
+
+/**
+ * Same as {@link stringify}, but yields the result in chunks instead of
+ * returning it as one string. Arrays and objects that are formatted with one
+ * item per line are written out item by item, so only the parts that might be
+ * inlined or formatted as tables have to be kept in memory.
+ * 
+ * Nothing is yielded if {@link stringify} would return `undefined`.
+ * 
+ * @param value - The value to convert to JSON.
+ * @param options - An optional object containing formatting options.
+ */
+function* stringifyIterable(value: any, options?: StringifyOptions): Generator<string, void, undefined> {
+  let buffer = ''
+  for (const chunk of createSerializer(options, false).stream(value)) {
+    buffer += chunk
+    if (buffer.length >= streamChunkSize) {
+      yield buffer
+      buffer = ''
+    }
+  }
+  if (buffer.length > 0) yield buffer
+}
+
+/**
+ * The parts of a writable stream that {@link stringifyToStream} uses, like
+ * Node.js `Writable` streams such as `fs.WriteStream` and `process.stdout`.
+ */
+export type StringifyWritable = {
+  write(chunk: string, callback?: (error?: Error | null) => void): boolean
+  once(event: 'drain' | 'error' | 'close', listener: (...args: any[]) => void): unknown
+  off?(event: 'drain' | 'error' | 'close', listener: (...args: any[]) => void): unknown
+  readonly destroyed?: boolean
+  readonly errored?: Error | null
+}
+
+/**
+ * Converts a value to JSON like {@link stringify} and writes it to a stream
+ * in chunks, see {@link stringifyIterable}. Waits for the stream to drain
+ * whenever its buffer is full. The stream is not ended.
+ * 
+ * @param value - The value to convert to JSON.
+ * @param writable - The stream to write to.
+ * @param options - An optional object containing formatting options.
+ * @returns A promise that resolves when everything has been written, or
+ * rejects if the stream emits an error or is closed before that.
+ */
+async function stringifyToStream(value: any, writable: StringifyWritable, options?: StringifyOptions): Promise<void> {
+  let failure: { error: unknown } | undefined
+  let wake: (() => void) | undefined
+  const fail = (error: unknown) => {
+    failure ??= { error }
+    wake?.()
+  }
+  const onClose = () => fail(new Error('The stream was closed before everything was written to it.'))
+  // Writes can fail after they return, so errors are listened for until the
+  // last chunk is written, not only while waiting for the stream to drain
+  writable.once('error', fail)
+  writable.once('close', onClose)
+
+  const waitFor = (start: (done: () => void) => void) => new Promise<void>((resolve, reject) => {
+    wake = () => failure === undefined ? resolve() : reject(failure.error)
+    if (failure !== undefined) wake()
+    else start(wake)
+  })
+  const write = async (chunk: string, last: boolean) => {
+    if (failure === undefined && (writable.destroyed || writable.errored)) {
+      if (writable.errored) fail(writable.errored)
+      else onClose()
+    }
+    if (failure !== undefined) throw failure.error
+    if (last) {
+      await waitFor(done => writable.write(chunk, error => error ? fail(error) : done()))
+    } else if (!writable.write(chunk)) {
+      await waitFor(done => writable.once('drain', done))
     }
-    const objIndent = indent.repeat(depth + 1)
-    return '{\n' + prefixIndent + objIndent + items.join(',\n' + prefixIndent + objIndent) + '\n' + prefixIndent + indent.repeat(depth) + '}'
   }
 
-  return processValue('', value, 0, { '': value })?.result
+  // The last chunk is written with a callback, so that the promise only
+  // resolves once everything has been written
+  let pending: string | undefined
+  for (const chunk of stringifyIterable(value, options)) {
+    if (pending !== undefined) await write(pending, false)
+    pending = chunk
+  }
+  if (pending !== undefined) await write(pending, true)
+  // The listeners are kept after failures, since the stream can still emit
+  // the error after it was reported to the callback of a write
+  writable.off?.('error', fail)
+  writable.off?.('close', onClose)
+}
+
+/**
+ * Gets the functions that convert strings and keys to string literals for
+ * the {@link StringifyOptions.syntax syntax}, and whether it is JSON5.
+ */
+function getQuoteFunctions(options: StringifyOptions | undefined): {
+  quote: (text: string) => string
+  quoteKey: (key: string) => string
+  json5: boolean
+} {
+  const syntax = options?.syntax ?? 'json'
+  if (syntax !== 'json' && syntax !== 'json5') {
+    throw new Error(`'syntax' must be 'json' or 'json5'.`)
+  }
+  const quote = getQuoteFunction(options?.escape ?? 'json')
+  if (syntax === 'json') return { quote, quoteKey: quote, json5: false }
+  const json5Quote = getJSON5QuoteFunction(quote, options?.quoteStyle ?? 'double')
+  return { quote: json5Quote, quoteKey: getJSON5KeyFunction(json5Quote), json5: true }
+}
+
+/**
+ * Converts the replacer and space arguments of `JSON.stringify` to options.
+ * Other values are ignored like `JSON.stringify` does.
+ */
+function getCompatOptions(replacer: unknown, space: unknown): StringifyOptions {
+  if (space instanceof Number) space = Number(space)
+  else if (space instanceof String) space = String(space)
+  return {
+    ...(typeof replacer === 'function' || Array.isArray(replacer)) && { replace: replacer as Replacer },
+    indent: typeof space === 'number' || typeof space === 'string' ? space : 0
+  }
+}
+
+/**
+ * Converts a replacer array to the keys that `JSON.stringify` writes, which
+ * are its strings and numbers, without duplicates.
+ */
+function getPropertyList(replacer: unknown[]): string[] {
+  const keys = new Set<string>()
+  for (const item of replacer) {
+    if (
+      typeof item === 'string' || typeof item === 'number' ||
+      item instanceof String || item instanceof Number
+    ) keys.add(String(item))
+  }
+  return Array.from(keys)
+}
+
+function getIndent(options: StringifyOptions | undefined): string {
+  return (
+    options?.indent === null ? '' :
+    typeof options?.indent === 'number' ? ' '.repeat(Math.max(0, Math.min(10, options.indent))) :
+    typeof options?.indent === 'string' ? options.indent.slice(0, 10) :
+    '  '
+  )
+}
+
+function getPrefixIndent(options: StringifyOptions | undefined): string {
+  return (
+    typeof options === 'object' && 'prefixIndent' in options ?
+      typeof options.prefixIndent === 'number' ? ' '.repeat(Math.max(0, options.prefixIndent)) :
+      typeof options.prefixIndent === 'string' ? options.prefixIndent :
+      '' :
+    ''
+  )
+}
+
+/**
+ * Checks if a prepared value is written as an array, object, or `null`, which
+ * are kept on their own lines in arrays and objects that contain more of them.
+ * Items of arrays that can't be written are written as `null`.
+ */
+function isNested(prepared: PreparedValue, arrayItem: boolean): boolean {
+  if (prepared.type !== 'Scalar') return true
+  return prepared.text === 'null' || arrayItem && prepared.text === undefined
 }
 
 function sum(ns: number[]): number {
@@ -567,38 +3027,83 @@ function arrMax(ns: number[]): number {
   return m
 }
 
-function getColumnWidths(lengths: number[], columnCount: number): number[] {
-  const columns = Map.groupBy(lengths, (_, i) => i % columnCount)
-  return Array.from(columns).map(([_, ls]) => Math.max(...ls))
+/**
+ * Gets the largest of the lengths in each column, when they are put in rows
+ * of the given number of columns.
+ *
+ * @param points - The positions of the decimal points of the items, to get
+ * the lengths after them instead.
+ */
+function getColumnWidths(lengths: number[], columnCount: number, points?: number[]): number[] {
+  const widths: number[] = []
+  for (let column = 0; column < columnCount && column < lengths.length; column++) {
+    let width = -Infinity
+    for (let i = column; i < lengths.length; i += columnCount) {
+      width = Math.max(width, points === undefined ? lengths[i] : lengths[i] - points[i])
+    }
+    widths.push(width)
+  }
+  return widths
 }
 
-function joinColumns(items: string[], columnWidths: number[]): string {
-  let line = items[0]
-  for (let i = 1; i < items.length; i++) {
-    line += ',' + ' '.repeat(columnWidths[i - 1] - items[i - 1].length + 1) + items[i]
+/**
+ * Gets the widths of the columns of a compact long array, and the positions
+ * in each column that the decimal points are aligned to if the positions of
+ * the decimal points of the items are given.
+ *
+ * @param wholeArray - Aligns all the items of the array the same, instead of
+ * each column separately.
+ */
+function getGridColumns(
+  lengths: number[],
+  points: number[] | undefined,
+  columnCount: number,
+  wholeArray: boolean
+): { columnWidths: number[], align?: number[] } {
+  if (points === undefined) return { columnWidths: getColumnWidths(lengths, columnCount) }
+  if (wholeArray) {
+    const columns = Math.min(columnCount, lengths.length)
+    const align = arrMax(points)
+    return {
+      columnWidths: Array(columns).fill(align + getColumnWidths(lengths, 1, points)[0]),
+      align: Array(columns).fill(align)
+    }
+  }
+  const columnWidths: number[] = []
+  const align: number[] = []
+  for (let column = 0; column < columnCount && column < lengths.length; column++) {
+    let point = -Infinity
+    let fractionWidth = -Infinity
+    for (let i = column; i < lengths.length; i += columnCount) {
+      point = Math.max(point, points[i])
+      fractionWidth = Math.max(fractionWidth, lengths[i] - points[i])
+    }
+    columnWidths.push(point + fractionWidth)
+    align.push(point)
   }
-  return line
+  return { columnWidths, align }
 }
 
-function findMaxItemsWide(items: any[], itemLengths: number[], maxLineLength: number): [number, number[]] {
+function findMaxItemsWide<T extends { columnWidths: number[] }>(
+  itemCount: number,
+  getColumns: (columnCount: number) => T,
+  maxLineLength: number
+): T {
   let low = 1
-  let high = Math.ceil(Math.sqrt(items.length))
-  let best = low
-  let bestColumnWidths: number[]
+  let high = Math.ceil(Math.sqrt(itemCount))
+  let best: T
   while (low <= high) {
     const mid = Math.floor((low + high) / 2)
-    const columnWidths = getColumnWidths(itemLengths, mid)
-    const totalWidth = sum(columnWidths) + (mid - 1) * 2
+    const columns = getColumns(mid)
+    const totalWidth = sum(columns.columnWidths) + (mid - 1) * 2
     if (totalWidth <= maxLineLength) {
-      best = mid
-      bestColumnWidths = columnWidths
+      best = columns
       low = mid + 1
     } else {
       high = mid - 1
     }
   }
-  bestColumnWidths ??= getColumnWidths(itemLengths, best)
-  return [ best, bestColumnWidths ]
+  return best ?? getColumns(1)
 }
 
 function anyCommon(a: Set<any>, b: Set<any>): boolean {
@@ -608,17 +3113,43 @@ function anyCommon(a: Set<any>, b: Set<any>): boolean {
   return false
 }
 
+function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+/**
+ * Finds the order of the columns for a table made from the given rows, or
+ * `null` if the rows can't be formatted as a table.
+ * 
+ * @param getKeys - Gets the keys of a row object in the order they should be
+ * in. The index is the index of the row in `table`.
+ * @param compare - A comparator to sort the columns with. If this is not
+ * given, the columns are in the order the keys appear in the rows.
+ */
 function getTableColumnOrder(
   table: unknown,
   maxObjectProperties: number,
-  tableMinSharedKeys: number
+  tableMinSharedKeys: number,
+  getKeys: (value: object, index: number) => string[] = Object.keys,
+  compare?: (a: string, b: string) => number,
+  keyOrder: Layout['tableKeyOrder'] = 'strict'
 ): string[] | null {
   if (table === null || typeof table !== 'object') return null
 
-  const values = (Array.isArray(table) ? table : Object.values(table))
-    .filter(el => typeof el !== 'undefined' && typeof el !== 'function')
+  const rows = Array.isArray(table) ? table : Object.values(table)
+  let count = 0
+  for (let i = 0; i < rows.length; i++) {
+    if (!isMissing(rows[i])) count++
+  }
+  if (count <= 1) return null
 
-  if (values.length <= 1) return null
+  const values = new Array(count)
+  const indices: number[] = new Array(count)
+  for (let i = 0, j = 0; i < rows.length; i++) {
+    if (isMissing(rows[i])) continue
+    values[j] = rows[i]
+    indices[j++] = i
+  }
 
   if (Array.isArray(values[0])) {
     const length = values[0].length
@@ -627,13 +3158,25 @@ function getTableColumnOrder(
       null
   }
 
-  if (values.some(v => typeof v !== 'object' || v === null)) return null
+  // Arrays would be written as objects in tables of objects
+  if (values.some(v => typeof v !== 'object' || v === null || v instanceof NumberLiteral || Array.isArray(v))) return null
 
-  const keys = values.map(v => Object.keys(v))
+  const keys: string[][] = new Array(count)
+  for (let i = 0; i < count; i++) keys[i] = getKeys(values[i], indices[i])
   if (keys.some(ik => ik.length > maxObjectProperties)) return null
 
+  // Rows usually have the same keys in the same order
+  let sameKeys = true
+  for (let i = 1; i < count && sameKeys; i++) {
+    sameKeys = keys[i].length === keys[0].length
+    for (let j = 0; j < keys[0].length && sameKeys; j++) sameKeys = keys[i][j] === keys[0][j]
+  }
+  if (sameKeys) {
+    return compare === undefined ? keys[0].slice() : keys[0].toSorted(compare)
+  }
+
   const allKeys = Array.from(new Set(keys.flat()))
-  const sharedKeys = allKeys.filter(key => values.every(v => key in v))
+  const sharedKeys = allKeys.filter(key => keys.every(ik => ik.includes(key)))
   if (sharedKeys.length < Math.min(tableMinSharedKeys, allKeys.length)) {
     return null
   }
@@ -657,37 +3200,49 @@ function getTableColumnOrder(
       }
     }
   }
-  if (Object.values(keyPositions).some(kp => anyCommon(kp.before, kp.after))) return null
+  if (Object.values(keyPositions).some(kp => anyCommon(kp.before, kp.after))) {
+    if (keyOrder === 'strict') return null
+    // All the keys, in the order they're first found in
+    const order = keyOrder === 'first' ? allKeys : allKeys.sort(keyOrder === 'union-sorted' ? compareKeys : keyOrder)
+    return compare === undefined ? order : order.sort(compare)
+  }
 
-  return Object.entries(keyPositions).sort((a, b) => {
+  const order = Object.entries(keyPositions).sort((a, b) => {
     return +a[1].before.has(b[0]) - +b[1].before.has(a[0]) + +b[1].after.has(a[0]) - +a[1].after.has(b[0])
   }).map(e => e[0])
+  return compare === undefined ? order : order.sort(compare)
 }
 
-function decimalAlignment(numbers: string[]): string[] {
-  let maxDecimalIndex = 0
-  const decimalIndices = []
-  for (let i = 0; i < numbers.length; i++) {
-    const n = numbers[i]
-    if (n === undefined) continue
-    const d = n.indexOf('.')
-    if (d > 0) {
-      maxDecimalIndex = Math.max(maxDecimalIndex, d)
-      decimalIndices[i] = d
-    } else {
-      maxDecimalIndex = Math.max(maxDecimalIndex, n.length)
-      decimalIndices[i] = n.length
-    }
-  }
-
-  const aligned = []
-  for (let i = 0; i < numbers.length; i++) {
-    const n = numbers[i]
-    if (n === undefined) continue
-    const d = decimalIndices[i]
-    aligned[i] = ' '.repeat(maxDecimalIndex - d) + n
-  }
-  return aligned
-}
-
+export { format, renderLayout, stringifyHighlighted, stringifyIterable, stringifyLayout, stringifyToStream }
+export { builtinCodecs, bufferCodec, dateCodec, mapCodec, setCodec, typedArrayCodec, type Codec } from './codecs.js'
+export {
+  defaultAnsiTheme,
+  defaultHTMLTheme,
+  highlight,
+  type HighlightOptions,
+  type HighlightTheme,
+  type HighlightTokenType
+} from './highlight.js'
+export { JSONSyntaxError, NumberLiteral } from './parse.js'
+export type {
+  CompactGridNode,
+  InlineArrayNode,
+  InlineObjectNode,
+  LayoutComments,
+  LayoutNode,
+  LayoutProperty,
+  MultilineArrayNode,
+  MultilineObjectNode,
+  ScalarNode,
+  SourcePosition,
+  SourceRange,
+  TableColumn,
+  TableNode,
+  TableRow
+} from './render.js'
+export { ValuePath, type PathSegment } from './path.js'
+export type { WidthMode } from './width.js'
+export type { EscapeMode } from './escape.js'
+export type { NumberOptions } from './numbers.js'
+export type { QuoteStyle } from './json5.js'
 export default stringify
@@ -0,0 +1,28 @@
+import { expect, test } from 'vitest'
+
+import { getQuoteFunction } from './escape.ts'
+import { getJSON5KeyFunction, getJSON5QuoteFunction } from './json5.ts'
+
+test('quote styles', () => {
+  const quote = getQuoteFunction('json')
+  expect(getJSON5QuoteFunction(quote, 'double')(`it's`)).toBe(`"it's"`)
+  const single = getJSON5QuoteFunction(quote, 'single')
+  expect(single(`it's "x"\n`)).toBe(`'it\\'s "x"\\n'`)
+  expect(single('a\\"')).toBe(`'a\\\\"'`)
+  const auto = getJSON5QuoteFunction(quote, 'auto')
+  expect(auto(`it's`)).toBe(`"it's"`)
+  expect(auto(`say "hi"`)).toBe(`'say "hi"'`)
+  expect(() => getJSON5QuoteFunction(quote, 'backtick' as any)).toThrow(`'quoteStyle' must be 'double', 'single', or 'auto'.`)
+})
+
+test('unquoted keys', () => {
+  const quoteKey = getJSON5KeyFunction(getQuoteFunction('json'))
+  expect(quoteKey('name')).toBe('name')
+  expect(quoteKey('$_x1')).toBe('$_x1')
+  expect(quoteKey('café')).toBe('café')
+  expect(quoteKey('class')).toBe('class')
+  expect(quoteKey('1st')).toBe('"1st"')
+  expect(quoteKey('a-b')).toBe('"a-b"')
+  expect(quoteKey('')).toBe('""')
+  expect(getJSON5KeyFunction(getQuoteFunction('ascii'))('café')).toBe('"caf\\u00e9"')
+})
@@ -0,0 +1,54 @@
+/**
+ * Which quotes strings and keys are written with in JSON5 output.
+ *
+ * - `'double'` always uses double quotes, like JSON.
+ * - `'single'` always uses single quotes.
+ * - `'auto'` uses single quotes for strings that contain more double quotes
+ *   than single quotes, so that fewer quotes have to be escaped.
+ */
+export type QuoteStyle = 'double' | 'single' | 'auto'
+
+const identifierPattern = /^[\p{ID_Start}$_][\p{ID_Continue}$\u200c\u200d]*$/u
+
+/**
+ * Converts a JSON string literal to the same string in single quotes.
+ */
+function toSingleQuotes(json: string): string {
+  return "'" + json.slice(1, -1).replace(/\\.|'/g, s => s === '\\"' ? '"' : s === "'" ? "\\'" : s) + "'"
+}
+
+function count(text: string, c: string): number {
+  let n = 0
+  for (let i = text.indexOf(c); i >= 0; i = text.indexOf(c, i + 1)) n++
+  return n
+}
+
+/**
+ * Gets the function that converts strings to JSON5 string literals with the
+ * {@link QuoteStyle}.
+ *
+ * @param quote - Converts strings to JSON string literals, for the escaping
+ * of everything except the quotes.
+ */
+export function getJSON5QuoteFunction(quote: (text: string) => string, style: QuoteStyle): (text: string) => string {
+  switch (style) {
+    case 'double': return quote
+    case 'single': return text => toSingleQuotes(quote(text))
+    case 'auto': return text => count(text, '"') > count(text, "'") ? toSingleQuotes(quote(text)) : quote(text)
+  }
+  throw new Error(`'quoteStyle' must be 'double', 'single', or 'auto'.`)
+}
+
+/**
+ * Gets the function that converts keys to JSON5, which leaves keys that are
+ * valid identifiers unquoted.
+ *
+ * @param quote - Converts keys to JSON5 string literals. Keys that it would
+ * escape characters in are always quoted.
+ */
+export function getJSON5KeyFunction(quote: (text: string) => string): (key: string) => string {
+  return key => {
+    const json = quote(key)
+    return identifierPattern.test(key) && json.slice(1, -1) === key ? key : json
+  }
+}
@@ -0,0 +1,107 @@
+import { expect, test } from 'vitest'
+
+import { getNumberFormatter, roundLiteral } from './numbers.ts'
+import { ValuePath } from './path.ts'
+
+const root = new ValuePath([])
+
+test('default number formatting', () => {
+  const format = getNumberFormatter()
+  expect(format(0.1 + 0.2, root)).toBe('0.30000000000000004')
+  expect(format(1e21, root)).toBe('1e+21')
+  expect(format(-0, root)).toBe('0')
+  expect(format(NaN, root)).toBe('null')
+  expect(format(-Infinity, root)).toBe('null')
+})
+
+test('rounding', () => {
+  const fraction = getNumberFormatter({ maxFractionDigits: 2 })
+  expect(fraction(0.1 + 0.2, root)).toBe('0.3')
+  expect(fraction(3.14159, root)).toBe('3.14')
+  expect(fraction(2, root)).toBe('2')
+  expect(fraction(1e-7, root)).toBe('0')
+  expect(fraction(-0.001, root)).toBe('0')
+  expect(fraction(1.5e300, root)).toBe('1.5e+300')
+  const significant = getNumberFormatter({ maxSignificantDigits: 15 })
+  expect(significant(0.1 + 0.2, root)).toBe('0.3')
+  expect(significant(1 - 0.9, root)).toBe('0.1')
+  expect(significant(123456.789, root)).toBe('123456.789')
+  expect(getNumberFormatter({ maxSignificantDigits: 2 })(123456, root)).toBe('120000')
+})
+
+test('rounding literals', () => {
+  const fraction = (text: string) => roundLiteral(text, { maxFractionDigits: 2 })
+  expect(fraction('1.50')).toBe('1.50')
+  expect(fraction('1.5000')).toBe('1.5000')
+  expect(fraction('12345678901234567890.125')).toBe('12345678901234567890.13')
+  expect(fraction('0.999')).toBe('1')
+  expect(fraction('-9.996')).toBe('-10')
+  expect(fraction('0.004')).toBe('0')
+  expect(fraction('-0.004')).toBe('-0')
+  expect(fraction('1.23456e2')).toBe('1.2346e2')
+  expect(fraction('1.5E-3')).toBe('0')
+  expect(roundLiteral('1.5E-3', { maxFractionDigits: 3 })).toBe('2E-3')
+  expect(fraction('1e400')).toBe('1e400')
+  expect(fraction('0x1f')).toBe('0x1f')
+  expect(fraction('Infinity')).toBe('Infinity')
+  const significant = (text: string) => roundLiteral(text, { maxSignificantDigits: 3 })
+  expect(significant('123456789012345678901234')).toBe('123000000000000000000000')
+  expect(significant('0.00012345')).toBe('0.000123')
+  expect(significant('99.95')).toBe('100')
+  expect(significant('1.10')).toBe('1.10')
+  expect(roundLiteral('1.2345')).toBe('1.2345')
+})
+
+test('notation', () => {
+  const fixed = getNumberFormatter({ notation: 'fixed' })
+  expect(fixed(1e21, root)).toBe('1000000000000000000000')
+  expect(fixed(-1.25e22, root)).toBe('-12500000000000000000000')
+  expect(fixed(1.5e-7, root)).toBe('0.00000015')
+  expect(fixed(12.5, root)).toBe('12.5')
+  const exponent = getNumberFormatter({ notation: 'exponent' })
+  expect(exponent(1500, root)).toBe('1.5e+3')
+  expect(exponent(-0.00025, root)).toBe('-2.5e-4')
+  expect(exponent(0, root)).toBe('0')
+  for (const n of [ 1e21, 1.5e-7, 123.456, -9.87654321e-12, Number.MAX_VALUE, Number.MIN_VALUE ]) {
+    expect(Number(fixed(n, root))).toBe(n)
+    expect(Number(exponent(n, root))).toBe(n)
+  }
+})
+
+test('non-finite numbers and negative zero', () => {
+  const strings = getNumberFormatter({ nonFinite: 'string', negativeZero: 'string' })
+  expect(strings(NaN, root)).toBe('"NaN"')
+  expect(strings(-Infinity, root)).toBe('"-Infinity"')
+  expect(strings(-0, root)).toBe('"-0"')
+  expect(strings(0, root)).toBe('0')
+  expect(getNumberFormatter({ negativeZero: 'keep' })(-0, root)).toBe('-0')
+  expect(getNumberFormatter({ negativeZero: 'keep', maxFractionDigits: 1 })(-0.01, root)).toBe('-0')
+  const throwing = getNumberFormatter({ nonFinite: 'throw', negativeZero: 'throw' })
+  expect(() => throwing(Infinity, new ValuePath([ 'a', 0 ]))).toThrow(new TypeError('Do not know how to serialize Infinity at $.a[0]'))
+  expect(() => throwing(-0, root)).toThrow(TypeError)
+})
+
+test('invalid number options', () => {
+  expect(() => getNumberFormatter({ maxFractionDigits: -1 })).toThrow(`'numbers.maxFractionDigits' must be an integer from 0 to 100.`)
+  expect(() => getNumberFormatter({ maxSignificantDigits: 0 })).toThrow(`'numbers.maxSignificantDigits' must be an integer from 1 to 100.`)
+  expect(() => getNumberFormatter({ notation: 'scientific' as any })).toThrow(`'numbers.notation' must be 'auto', 'fixed', 'exponent', or 'hex'.`)
+  expect(() => getNumberFormatter({ nonFinite: 'zero' as any })).toThrow(`'numbers.nonFinite' must be 'null', 'string', 'literal', or 'throw'.`)
+  expect(() => getNumberFormatter({ negativeZero: 'null' as any })).toThrow(`'numbers.negativeZero' must be 'zero', 'keep', 'string', or 'throw'.`)
+  expect(() => getNumberFormatter({ notation: 'hex' })).toThrow(`'numbers.notation' can only be 'hex' in JSON5 output.`)
+  expect(() => getNumberFormatter({ nonFinite: 'literal' })).toThrow(`'numbers.nonFinite' can only be 'literal' in JSON5 output.`)
+})
+
+test('JSON5 numbers', () => {
+  const quoteSingle = (text: string) => `'${text}'`
+  const json5 = getNumberFormatter({}, quoteSingle, true)
+  expect(json5(NaN, root)).toBe('NaN')
+  expect(json5(-Infinity, root)).toBe('-Infinity')
+  expect(getNumberFormatter({ nonFinite: 'string', negativeZero: 'string' }, quoteSingle, true)(Infinity, root)).toBe(`'Infinity'`)
+  expect(getNumberFormatter({ negativeZero: 'string' }, quoteSingle, true)(-0, root)).toBe(`'-0'`)
+  const hex = getNumberFormatter({ notation: 'hex' }, quoteSingle, true)
+  expect(hex(255, root)).toBe('0xff')
+  expect(hex(-4096, root)).toBe('-0x1000')
+  expect(hex(0, root)).toBe('0')
+  expect(hex(1.5, root)).toBe('1.5')
+  expect(hex(1e21, root)).toBe('0x3635c9adc5dea00000')
+})
@@ -0,0 +1,214 @@
+import type { ValuePath } from './path.js'
+
+/**
+ * Controls how numbers are written, see {@link StringifyOptions.numbers}.
+ */
+export type NumberOptions = {
+  /**
+   * Rounds numbers to at most this many digits after the decimal point, from
+   * `0` to `100`.
+   *
+   * Defaults to no rounding.
+   */
+  maxFractionDigits?: number
+  /**
+   * Rounds numbers to at most this many significant digits, from `1` to
+   * `100`. Something like `15` removes the noise of floating point arithmetic
+   * from numbers like `0.30000000000000004`, without changing other numbers.
+   *
+   * Defaults to no rounding.
+   */
+  maxSignificantDigits?: number
+  /**
+   * - `'auto'` writes numbers like `JSON.stringify` does, which uses exponent
+   *   notation for numbers below `1e-6` or from `1e21` and up.
+   * - `'fixed'` never uses exponent notation, so `1e21` is written as
+   *   `1000000000000000000000`.
+   * - `'exponent'` always uses exponent notation, like `1.5e+3`, except for
+   *   zero.
+   * - `'hex'` writes integers in hexadecimal, like `0xff`, and other numbers
+   *   like `'auto'` does. This is only allowed in JSON5 output.
+   *
+   * Defaults to `'auto'`.
+   */
+  notation?: 'auto' | 'fixed' | 'exponent' | 'hex'
+  /**
+   * Controls how `NaN`, `Infinity`, and `-Infinity` are written.
+   *
+   * - `'null'` writes them as `null`, like `JSON.stringify` does.
+   * - `'string'` writes them as strings, like `"NaN"` and `"-Infinity"`.
+   * - `'literal'` writes them as they are, like `NaN` and `-Infinity`. This
+   *   is only allowed in JSON5 output.
+   * - `'throw'` throws a `TypeError`.
+   *
+   * Defaults to `'literal'` in JSON5 output, and `'null'` otherwise.
+   */
+  nonFinite?: 'null' | 'string' | 'literal' | 'throw'
+  /**
+   * Controls how `-0` is written, including numbers that are rounded to it.
+   *
+   * - `'zero'` writes it as `0`, like `JSON.stringify` does.
+   * - `'keep'` writes it as `-0`.
+   * - `'string'` writes it as `"-0"`.
+   * - `'throw'` throws a `TypeError`.
+   *
+   * Defaults to `'zero'`.
+   */
+  negativeZero?: 'zero' | 'keep' | 'string' | 'throw'
+}
+
+/**
+ * Writes a finite number without exponent notation, using the fewest digits
+ * that read back as the same number.
+ */
+function toFixedNotation(n: number): string {
+  const text = String(n)
+  if (!text.includes('e')) return text
+  const [ mantissa, exponentText ] = n.toExponential().split('e')
+  const exponent = Number(exponentText)
+  const sign = mantissa[0] === '-' ? '-' : ''
+  const digits = mantissa.replace(/^-/, '').replace('.', '')
+  return exponent < 0 ?
+    sign + '0.' + '0'.repeat(-exponent - 1) + digits :
+    sign + digits.padEnd(exponent + 1, '0')
+}
+
+function checkDigits(name: string, value: number | undefined, min: number): void {
+  if (value !== undefined && (!Number.isInteger(value) || value < min || value > 100)) {
+    throw new Error(`'numbers.${name}' must be an integer from ${min} to 100.`)
+  }
+}
+
+/**
+ * Writes an integer in hexadecimal, or other numbers like `String` does.
+ */
+function toHexNotation(n: number): string {
+  if (!Number.isInteger(n)) return String(n)
+  return (n < 0 ? '-0x' : '0x') + Math.abs(n).toString(16)
+}
+
+const decimalPattern = /^([-+]?)(\d*)(?:\.(\d*))?(?:[eE]([-+]?\d+))?$/
+
+/**
+ * Adds one to a string of digits.
+ */
+function increment(digits: string): string {
+  let i = digits.length - 1
+  while (i >= 0 && digits[i] === '9') i--
+  return i < 0 ? '1' + '0'.repeat(digits.length) : digits.slice(0, i) + (Number(digits[i]) + 1) + '0'.repeat(digits.length - i - 1)
+}
+
+/**
+ * Rounds the text of a number literal with the rounding options of the
+ * {@link NumberOptions}, without converting it to a JavaScript number so that
+ * no precision is lost. The text is returned as it is if rounding doesn't
+ * change its value, or if it isn't a decimal number. Rounded numbers are
+ * written without trailing zeros, in exponent notation if the text was.
+ */
+export function roundLiteral(text: string, options: NumberOptions = {}): string {
+  const { maxFractionDigits, maxSignificantDigits } = options
+  const match = decimalPattern.exec(text)
+  if (match === null || match[2] === '' && (match[3] ?? '') === '') return text
+  const [ , sign, intPart, fracPart = '', exponent ] = match
+  // The value is 0.digits * 10^point, without leading and trailing zeros
+  let digits = intPart + fracPart
+  let point = intPart.length + Number(exponent ?? 0)
+  const trimmed = digits.replace(/^0+/, '')
+  point -= digits.length - trimmed.length
+  digits = trimmed.replace(/0+$/, '')
+  if (digits === '') return text
+
+  let keep = digits.length
+  if (maxSignificantDigits !== undefined) keep = Math.min(keep, maxSignificantDigits)
+  if (maxFractionDigits !== undefined) keep = Math.min(keep, point + maxFractionDigits)
+  if (keep >= digits.length) return text
+  if (keep < 0) {
+    digits = ''
+  } else {
+    const roundUp = digits[keep] >= '5'
+    digits = digits.slice(0, keep)
+    if (roundUp) {
+      const incremented = increment(digits)
+      if (incremented.length > digits.length) point++
+      digits = incremented
+    }
+    digits = digits.replace(/0+$/, '')
+  }
+  if (digits === '') return sign === '-' ? '-0' : '0'
+
+  if (exponent !== undefined) {
+    const mantissa = digits.length === 1 ? digits : digits[0] + '.' + digits.slice(1)
+    return sign + mantissa + text[text.length - exponent.length - 1] + (point - 1)
+  }
+  return sign + (
+    point <= 0 ? '0.' + '0'.repeat(-point) + digits :
+    point >= digits.length ? digits + '0'.repeat(point - digits.length) :
+    digits.slice(0, point) + '.' + digits.slice(point)
+  )
+}
+
+/**
+ * Gets the function that converts numbers to JSON for the
+ * {@link NumberOptions}. It is given the path of the number for errors.
+ *
+ * @param quote - Converts the numbers that are written as strings to string
+ * literals.
+ * @param json5 - Allows the options that are only valid in JSON5 output, and
+ * uses the defaults for it.
+ */
+export function getNumberFormatter(
+  options: NumberOptions = {},
+  quote: (text: string) => string = JSON.stringify,
+  json5: boolean = false
+): (n: number, path: ValuePath) => string {
+  const {
+    maxFractionDigits,
+    maxSignificantDigits,
+    notation = 'auto',
+    nonFinite = json5 ? 'literal' : 'null',
+    negativeZero = 'zero'
+  } = options
+  checkDigits('maxFractionDigits', maxFractionDigits, 0)
+  checkDigits('maxSignificantDigits', maxSignificantDigits, 1)
+  if (notation !== 'auto' && notation !== 'fixed' && notation !== 'exponent' && notation !== 'hex') {
+    throw new Error(`'numbers.notation' must be 'auto', 'fixed', 'exponent', or 'hex'.`)
+  }
+  if (notation === 'hex' && !json5) {
+    throw new Error(`'numbers.notation' can only be 'hex' in JSON5 output.`)
+  }
+  if (nonFinite !== 'null' && nonFinite !== 'string' && nonFinite !== 'literal' && nonFinite !== 'throw') {
+    throw new Error(`'numbers.nonFinite' must be 'null', 'string', 'literal', or 'throw'.`)
+  }
+  if (nonFinite === 'literal' && !json5) {
+    throw new Error(`'numbers.nonFinite' can only be 'literal' in JSON5 output.`)
+  }
+  if (negativeZero !== 'zero' && negativeZero !== 'keep' && negativeZero !== 'string' && negativeZero !== 'throw') {
+    throw new Error(`'numbers.negativeZero' must be 'zero', 'keep', 'string', or 'throw'.`)
+  }
+
+  return (n, path) => {
+    if (!Number.isFinite(n)) {
+      if (nonFinite === 'throw') {
+        throw new TypeError(`Do not know how to serialize ${n} at ${path}`)
+      }
+      return nonFinite === 'string' ? quote(String(n)) : nonFinite === 'literal' ? String(n) : 'null'
+    }
+    // Rounding to fewer digits and converting back to a number makes the
+    // number be written with the fewest digits that read back as it
+    if (maxSignificantDigits !== undefined) n = Number(n.toPrecision(maxSignificantDigits))
+    if (maxFractionDigits !== undefined && Math.abs(n) < 1e21) n = Number(n.toFixed(maxFractionDigits))
+    if (n === 0) {
+      if (!Object.is(n, -0) || negativeZero === 'zero') return '0'
+      if (negativeZero === 'throw') {
+        throw new TypeError(`Do not know how to serialize -0 at ${path}`)
+      }
+      return negativeZero === 'string' ? quote('-0') : '-0'
+    }
+    return (
+      notation === 'fixed' ? toFixedNotation(n) :
+      notation === 'exponent' ? n.toExponential() :
+      notation === 'hex' ? toHexNotation(n) :
+      String(n)
+    )
+  }
+}
@@ -0,0 +1,112 @@
+import { expect, test } from 'vitest'
+import dedent from 'dedent'
+
+import { containsComments, getComments, JSONSyntaxError, NumberLiteral, parse, parseDocument, parseStringToken, tokenize } from './parse.ts'
+
+test('parses the same values as JSON.parse', () => {
+  const text = '{"a":[1,-2.5,"x\\n\\u00e9",true,false,null],"b":{},"c":[]}'
+  expect(parse(text)).toEqual(JSON.parse(text))
+})
+
+test('numbers that would change are kept as NumberLiteral', () => {
+  const value = parse('[1.50, 12345678901234567890, 1E3, -0, 0.5]')
+  expect(value[0]).toBeInstanceOf(NumberLiteral)
+  expect(value.slice(0, 4).map(String)).toEqual(['1.50', '12345678901234567890', '1E3', '-0'])
+  expect(value[4]).toBe(0.5)
+})
+
+test('__proto__ keys become own properties', () => {
+  const value = parse('{"__proto__": 1}')
+  expect(Object.keys(value)).toEqual(['__proto__'])
+  expect(Object.getPrototypeOf(value)).toBe(Object.prototype)
+})
+
+test('syntax errors', () => {
+  const cases: [string, string, number, number][] = [
+    ['', 'Unexpected end of input', 1, 1],
+    ['[1,]', "Unexpected token ']'", 1, 4],
+    ['{"a" 1}', "Unexpected token '1'", 1, 6],
+    ['[01]', 'Invalid number', 1, 2],
+    ['"abc', 'Unterminated string', 1, 1],
+    ['"a\\x"', 'Invalid escape sequence in string', 1, 3],
+    ['"a\tb"', 'Bad control character in string', 1, 3],
+    ['[\n  nul\n]', "Unexpected token 'nul'", 2, 3],
+    ['1 2', "Unexpected token '2'", 1, 3],
+    ['@', 'Unexpected character "@"', 1, 1]
+  ]
+  for (const [text, message, line, column] of cases) {
+    let error: JSONSyntaxError
+    try {
+      parse(text)
+    } catch (e) {
+      error = e
+    }
+    expect(error).toBeInstanceOf(JSONSyntaxError)
+    expect(error.message).toBe(`${message} at line ${line}, column ${column}`)
+    expect([error.line, error.column]).toEqual([line, column])
+  }
+})
+
+test('comments and trailing commas require jsonc', () => {
+  expect(() => parse('[1, 2,]')).toThrow(JSONSyntaxError)
+  expect(() => parse('// comment\n[]')).toThrow(JSONSyntaxError)
+  expect(parse('[1, 2,]', { jsonc: true })).toEqual([1, 2])
+  expect(parse('{ "a": 1, } // comment', { jsonc: true })).toEqual({ a: 1 })
+  expect(() => parse('[1,,]', { jsonc: true })).toThrow(JSONSyntaxError)
+  expect(() => parse('[1 /* 2 ]', { jsonc: true })).toThrow('Unterminated comment at line 1, column 4')
+})
+
+test('JSON5 text', () => {
+  const text = "{ a: 'it\\'s', \"b\": [ 0xff, -0x10, .5, +1, 2., -Infinity, NaN, 1.50, ], null: 1, Infinity: 2, // comment\n}"
+  expect(parse(text, { json5: true })).toEqual({ a: "it's", b: [ 255, -16, 0.5, 1, 2, -Infinity, NaN, new NumberLiteral('1.50') ], null: 1, Infinity: 2 })
+  expect(() => parse(text)).toThrow(JSONSyntaxError)
+  expect(() => parse('{ -Infinity: 1 }', { json5: true })).toThrow("Unexpected token '-Infinity' at line 1, column 3")
+})
+
+test('comments are attached to the nearest item', () => {
+  const { value, comments } = parseDocument(dedent`
+    // Before root
+    {
+      // Before a
+      "a": 1, // After a
+      "b": [
+        true /* After 0 */,
+        false
+        // End of b
+      ]
+    } // After root
+  `, { jsonc: true })
+  expect(comments).toEqual({ before: ['// Before root'], after: ['// After root'] })
+  expect(getComments(value)).toEqual({
+    items: { a: { before: ['// Before a'], after: ['// After a'] } },
+    end: []
+  })
+  expect(getComments(value.b)).toEqual({
+    items: { 0: { before: [], after: ['/* After 0 */'] } },
+    end: ['// End of b']
+  })
+  expect(containsComments(value)).toBe(true)
+  expect(containsComments(parse('{ "a": [] }', { jsonc: true }))).toBe(false)
+})
+
+test('comments on keys named like Object.prototype members', () => {
+  const value = parse('{ "toString": 1, // a\n "constructor": 2, /* b */ "__proto__": 3 // c\n }', { jsonc: true })
+  const comments = getComments(value)!
+  expect(Object.keys(comments.items)).toEqual([ 'toString', 'constructor', '__proto__' ])
+  expect(comments.items.toString).toEqual({ before: [], after: [ '// a' ] })
+  expect(comments.items.constructor).toEqual({ before: [], after: [ '/* b */' ] })
+  expect(comments.items['__proto__']).toEqual({ before: [], after: [ '// c' ] })
+  expect(getComments(parse('{ "toString": 1 }', { jsonc: true }))).toBeUndefined()
+})
+
+test('JSON5 tokens', () => {
+  const tokens = Array.from(tokenize(`{ a: 'it\\'s', $b: +.5, c: -0xFF, d: [ Infinity, NaN ], }`, { json5: true }))
+  expect(tokens.filter(t => t.type !== 'punctuation').map(t => [ t.type, t.text ])).toEqual([
+    [ 'identifier', 'a' ], [ 'string', `'it\\'s'` ], [ 'identifier', '$b' ], [ 'number', '+.5' ],
+    [ 'identifier', 'c' ], [ 'number', '-0xFF' ], [ 'identifier', 'd' ], [ 'number', 'Infinity' ], [ 'number', 'NaN' ]
+  ])
+  expect(() => Array.from(tokenize(`{ a: 1 }`))).toThrow(`Unexpected token 'a'`)
+  expect(parseStringToken(`'it\\'s "x"\\x41\\
+'`)).toBe(`it's "x"A`)
+  expect(parseStringToken(`"\\u00e9\\n"`)).toBe('é\n')
+})
@@ -0,0 +1,520 @@
+/**
+ * `JSON.rawJSON`, which isn't available in every runtime yet.
+ */
+type JSONWithRawJSON = typeof JSON & {
+  rawJSON?: (text: string) => unknown
+}
+
+/**
+ * A number from parsed JSON text that a JavaScript number wouldn't write back
+ * the same way, for example `1.50`, `1e3`, `-0`, or integers larger than
+ * `Number.MAX_SAFE_INTEGER`. The original text is kept so that it can be
+ * written back out exactly as it was.
+ */
+export class NumberLiteral {
+  readonly text: string
+
+  constructor(text: string) {
+    this.text = text
+  }
+
+  valueOf(): number {
+    return Number(this.text)
+  }
+
+  toString(): string {
+    return this.text
+  }
+
+  /**
+   * Uses `JSON.rawJSON` where it is available so that `JSON.stringify` also
+   * writes the original text. Falls back to the number value otherwise.
+   */
+  toJSON(): unknown {
+    const { rawJSON } = JSON as JSONWithRawJSON
+    return typeof rawJSON === 'function' ? rawJSON(this.text) : this.valueOf()
+  }
+}
+
+/**
+ * Thrown when parsing invalid JSON text. The position of the error is
+ * available in the {@link JSONSyntaxError.line line} and
+ * {@link JSONSyntaxError.column column} properties, both starting at 1.
+ */
+export class JSONSyntaxError extends SyntaxError {
+  readonly offset: number
+  readonly line: number
+  readonly column: number
+
+  constructor(message: string, text: string, offset: number) {
+    const { line, column } = getLineAndColumn(text, offset)
+    super(`${message} at line ${line}, column ${column}`)
+    this.name = 'JSONSyntaxError'
+    this.offset = offset
+    this.line = line
+    this.column = column
+  }
+}
+
+export type Token = {
+  /**
+   * The type of the token. Identifiers are only found in JSON5 text, where
+   * they are the keys that aren't quoted.
+   */
+  type: 'punctuation' | 'string' | 'number' | 'boolean' | 'null' | 'comment' | 'identifier'
+  text: string
+  offset: number
+}
+
+const numberPattern = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y
+const stringPattern = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y
+const wordPattern = /[a-zA-Z_$][\w$]*/y
+const json5NumberPattern = /[+-]?(?:0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?|Infinity|NaN)/y
+const json5StringPattern = /"(?:[^"\\\n\r]|\\(?:\r\n|[^]))*"|'(?:[^'\\\n\r]|\\(?:\r\n|[^]))*'/y
+const identifierPattern = /[\p{ID_Start}$_][\p{ID_Continue}$\u200c\u200d]*/uy
+const unquotedKeyPattern = /^[\p{ID_Start}$_][\p{ID_Continue}$\u200c\u200d]*$/u
+const jsonNumberPattern = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/
+
+function getLineAndColumn(text: string, offset: number): { line: number, column: number } {
+  let line = 1
+  let lineStart = 0
+  for (let i = 0; i < offset; i++) {
+    if (text[i] === '\n') {
+      line++
+      lineStart = i + 1
+    }
+  }
+  return { line, column: offset - lineStart + 1 }
+}
+
+function describeChar(c: string) {
+  return c === undefined ? 'end of input' : `character ${JSON.stringify(c)}`
+}
+
+/**
+ * Splits JSON text into tokens. Whitespace is skipped.
+ *
+ * @param text - The JSON text to tokenize.
+ * @param options.comments - Controls if `//` and `/* *\/` comments are
+ * allowed. Defaults to `false`.
+ * @param options.json5 - Controls if the strings, numbers, and unquoted keys
+ * of JSON5 are allowed. Defaults to `false`.
+ * @throws {JSONSyntaxError} If the text contains something that isn't a
+ * valid JSON token.
+ */
+export function* tokenize(text: string, options?: { comments?: boolean, json5?: boolean }): Generator<Token> {
+  const comments = options?.comments ?? false
+  const json5 = options?.json5 ?? false
+  let pos = 0
+  while (pos < text.length) {
+    const c = text[pos]
+    if (c === ' ' || c === '\t' || c === '\n' || c === '\r') {
+      pos++
+      continue
+    }
+    if (comments && c === '/' && text[pos + 1] === '/') {
+      let end = text.indexOf('\n', pos)
+      if (end < 0) end = text.length
+      if (text[end - 1] === '\r') end--
+      yield { type: 'comment', text: text.slice(pos, end), offset: pos }
+      pos = end
+      continue
+    }
+    if (comments && c === '/' && text[pos + 1] === '*') {
+      const end = text.indexOf('*/', pos + 2)
+      if (end < 0) {
+        throw new JSONSyntaxError('Unterminated comment', text, pos)
+      }
+      yield { type: 'comment', text: text.slice(pos, end + 2), offset: pos }
+      pos = end + 2
+      continue
+    }
+    if (c === '{' || c === '}' || c === '[' || c === ']' || c === ':' || c === ',') {
+      yield { type: 'punctuation', text: c, offset: pos }
+      pos++
+      continue
+    }
+    if (json5 && (c === '"' || c === "'")) {
+      json5StringPattern.lastIndex = pos
+      const match = json5StringPattern.exec(text)
+      if (match === null) {
+        throw new JSONSyntaxError('Unterminated string', text, pos)
+      }
+      yield { type: 'string', text: match[0], offset: pos }
+      pos += match[0].length
+      continue
+    }
+    if (json5 && (c === '+' || c === '-' || c === '.' || (c >= '0' && c <= '9') || c === 'I' || c === 'N')) {
+      json5NumberPattern.lastIndex = pos
+      const match = json5NumberPattern.exec(text)
+      const end = pos + (match?.[0].length ?? 0)
+      if (match !== null && !/[\w.$]/.test(text[end] ?? '')) {
+        yield { type: 'number', text: match[0], offset: pos }
+        pos = end
+        continue
+      }
+      if (c !== 'I' && c !== 'N') {
+        throw new JSONSyntaxError('Invalid number', text, pos)
+      }
+    }
+    if (c === '"') {
+      stringPattern.lastIndex = pos
+      const match = stringPattern.exec(text)
+      if (match === null) {
+        throw new JSONSyntaxError(...invalidString(text, pos))
+      }
+      yield { type: 'string', text: match[0], offset: pos }
+      pos += match[0].length
+      continue
+    }
+    if (c === '-' || (c >= '0' && c <= '9')) {
+      numberPattern.lastIndex = pos
+      const match = numberPattern.exec(text)
+      const end = pos + (match?.[0].length ?? 0)
+      if (match === null || /[\w.$]/.test(text[end] ?? '')) {
+        throw new JSONSyntaxError('Invalid number', text, pos)
+      }
+      yield { type: 'number', text: match[0], offset: pos }
+      pos = end
+      continue
+    }
+    wordPattern.lastIndex = pos
+    const word = wordPattern.exec(text)?.[0]
+    if (word === 'true' || word === 'false') {
+      yield { type: 'boolean', text: word, offset: pos }
+      pos += word.length
+      continue
+    }
+    if (word === 'null') {
+      yield { type: 'null', text: word, offset: pos }
+      pos += word.length
+      continue
+    }
+    if (json5) {
+      identifierPattern.lastIndex = pos
+      const identifier = identifierPattern.exec(text)?.[0]
+      if (identifier !== undefined) {
+        yield { type: 'identifier', text: identifier, offset: pos }
+        pos += identifier.length
+        continue
+      }
+    }
+    if (word !== undefined) {
+      throw new JSONSyntaxError(`Unexpected token '${word}'`, text, pos)
+    }
+    throw new JSONSyntaxError(`Unexpected ${describeChar(c)}`, text, pos)
+  }
+}
+
+const json5Escapes: Record<string, string> = {
+  b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v', 0: '\0',
+  '\n': '', '\r': '', '\r\n': '', '\u2028': '', '\u2029': ''
+}
+
+/**
+ * Gets the value of a string token, which may be a JSON5 string with single
+ * quotes, more escape sequences, and escaped line breaks.
+ */
+export function parseStringToken(text: string): string {
+  if (text[0] === '"' && !/\\[^"\\/bfnrtu]|[\u0000-\u001f]/.test(text)) return JSON.parse(text)
+  return text.slice(1, -1).replace(/\\(?:u([0-9a-fA-F]{4})|x([0-9a-fA-F]{2})|(\r\n|[^]))/g, (_, u, x, c) =>
+    u !== undefined || x !== undefined ? String.fromCharCode(parseInt(u ?? x, 16)) : json5Escapes[c] ?? c
+  )
+}
+
+/**
+ * Gets the value of a JSON5 number that isn't also a JSON number, like
+ * `0xff`, `.5`, `+1`, or `-Infinity`. The sign is applied separately, since
+ * `Number` doesn't read signed hexadecimal numbers.
+ */
+function parseJSON5Number(text: string): number {
+  const n = Number(text.replace(/^[+-]/, ''))
+  return text[0] === '-' ? -n : n
+}
+
+function invalidString(text: string, start: number): [string, string, number] {
+  for (let i = start + 1; i < text.length; i++) {
+    const c = text[i]
+    if (c === '"') break
+    if (c === '\n' || c === '\r') break
+    if (c < ' ') return ['Bad control character in string', text, i]
+    if (c === '\\') {
+      if (!/^(?:["\\/bfnrt]|u[0-9a-fA-F]{4})/.test(text.slice(i + 1, i + 6))) {
+        return ['Invalid escape sequence in string', text, i]
+      }
+      i++
+    }
+  }
+  return ['Unterminated string', text, start]
+}
+
+export type ParseOptions = {
+  /**
+   * Allow `//` and `/* *\/` comments and trailing commas, like in JSONC files
+   * such as tsconfig.json. The comments can be read using
+   * {@link getComments}.
+   * 
+   * Defaults to `false`.
+   */
+  jsonc?: boolean
+  /**
+   * Allow JSON5 text, which has comments and trailing commas like JSONC, but
+   * also keys that aren't quoted, strings in single quotes, and numbers like
+   * `0xff`, `.5`, and `Infinity`. Numbers that aren't valid JSON are read as
+   * regular numbers, so they are written like any other number.
+   * 
+   * Defaults to `false`.
+   */
+  json5?: boolean
+}
+
+/**
+ * Comments attached to a property in an object or an item in an array.
+ */
+export type ItemComments = {
+  /**
+   * Comments on the lines before the item.
+   */
+  before: string[]
+  /**
+   * Comments after the item on the same line.
+   */
+  after: string[]
+}
+
+/**
+ * Comments found inside an array or object when parsing JSONC text.
+ */
+export type ContainerComments = {
+  /**
+   * Comments attached to the items in the container, by property key or
+   * array index.
+   */
+  items: Record<string, ItemComments>
+  /**
+   * Comments after the last item, before the closing bracket.
+   */
+  end: string[]
+}
+
+const containerComments = new WeakMap<object, ContainerComments>()
+const commentedContainers = new WeakSet<object>()
+// Most values never come from text with comments, and then they don't have to
+// be looked up
+let parsedComments = false
+
+/**
+ * Gets the comments found directly inside an array or object returned by
+ * {@link parse}.
+ * 
+ * @param value - An array or object from the result of {@link parse}.
+ * @returns The comments in the container, or `undefined` if it has none.
+ */
+export function getComments(value: unknown): ContainerComments | undefined {
+  return typeof value === 'object' && value !== null ? containerComments.get(value) : undefined
+}
+
+/**
+ * Checks if an array or object returned by {@link parse} contains any
+ * comments, either directly or in any nested array or object.
+ * 
+ * @param value - A value from the result of {@link parse}.
+ */
+export function containsComments(value: unknown): boolean {
+  return parsedComments && typeof value === 'object' && value !== null && commentedContainers.has(value)
+}
+
+/**
+ * Parses JSON text into a JavaScript value. Unlike `JSON.parse`, numbers that
+ * can't be represented exactly by a JavaScript number are returned as
+ * {@link NumberLiteral} objects that keep the original text.
+ *
+ * @param text - The JSON text to parse.
+ * @param options - An optional object containing parsing options.
+ * @returns The parsed value.
+ * @throws {JSONSyntaxError} If the text is not valid JSON.
+ */
+export function parse(text: string, options?: ParseOptions): any {
+  return parseDocument(text, options).value
+}
+
+/**
+ * Same as {@link parse}, but also returns the comments before and after the
+ * root value.
+ */
+export function parseDocument(text: string, options?: ParseOptions): {
+  value: any
+  comments: ItemComments
+} {
+  const json5 = options?.json5 ?? false
+  const jsonc = json5 || (options?.jsonc ?? false)
+  const tokens = tokenize(text, { comments: jsonc, json5 })
+  let token: Token | undefined
+  let lastEnd = 0
+  let pending: { text: string, newlineBefore: boolean }[] = []
+
+  function next(): Token | undefined {
+    if (token !== undefined) lastEnd = token.offset + token.text.length
+    while (true) {
+      const r = tokens.next()
+      token = r.done ? undefined : r.value
+      if (token?.type !== 'comment') return token
+      pending.push({
+        text: token.text,
+        newlineBefore: text.slice(lastEnd, token.offset).includes('\n')
+      })
+      lastEnd = token.offset + token.text.length
+    }
+  }
+
+  /**
+   * Takes the pending comments that are on the same line as the last token.
+   */
+  function takeTrailing(): string[] {
+    const result: string[] = []
+    while (pending.length > 0 && !pending[0].newlineBefore) {
+      result.push(pending.shift().text)
+    }
+    return result
+  }
+
+  function takeAll(): string[] {
+    const result = pending.map(c => c.text)
+    pending = []
+    return result
+  }
+
+  function unexpected(): never {
+    if (token === undefined) {
+      throw new JSONSyntaxError('Unexpected end of input', text, text.length)
+    }
+    throw new JSONSyntaxError(`Unexpected token '${token.text}'`, text, token.offset)
+  }
+
+  function isPunctuation(p: string): boolean {
+    return token?.type === 'punctuation' && token.text === p
+  }
+
+  function expectPunctuation(p: string) {
+    if (!isPunctuation(p)) unexpected()
+    next()
+  }
+
+  function parseValue(): any {
+    if (token === undefined) unexpected()
+    switch (token.type) {
+      case 'string': {
+        const value = json5 ? parseStringToken(token.text) : JSON.parse(token.text)
+        next()
+        return value
+      }
+      case 'number': {
+        if (json5 && !jsonNumberPattern.test(token.text)) {
+          const value = parseJSON5Number(token.text)
+          next()
+          return value
+        }
+        const n = Number(token.text)
+        const value = String(n) === token.text ? n : new NumberLiteral(token.text)
+        next()
+        return value
+      }
+      case 'boolean': {
+        const value = token.text === 'true'
+        next()
+        return value
+      }
+      case 'null':
+        next()
+        return null
+    }
+    if (isPunctuation('[')) return parseContainer([], ']', () => {
+      return [null, parseValue()]
+    })
+    if (isPunctuation('{')) return parseContainer({}, '}', before => {
+      if (token === undefined) unexpected()
+      let key: string
+      if (token.type === 'string') key = json5 ? parseStringToken(token.text) : JSON.parse(token.text)
+      // Keys that aren't quoted can also be words like `null` or `Infinity`,
+      // which have their own tokens
+      else if (json5 && token.type !== 'punctuation' && unquotedKeyPattern.test(token.text)) key = token.text
+      else unexpected()
+      next()
+      before.push(...takeAll())
+      expectPunctuation(':')
+      before.push(...takeAll())
+      return [key, parseValue()]
+    })
+    unexpected()
+  }
+
+  function parseContainer<T extends object>(
+    container: T,
+    close: string,
+    parseItem: (before: string[]) => [string | null, any]
+  ): T {
+    const isArray = Array.isArray(container)
+    // Keys like `toString` and `__proto__` are stored like any other key
+    const comments: ContainerComments = { items: Object.create(null), end: [] }
+    let commented = false
+    next()
+    let index = 0
+    while (true) {
+      const before = takeAll()
+      if (isPunctuation(close) && (index === 0 || jsonc)) {
+        comments.end = before
+        break
+      }
+      const [key, value] = parseItem(before)
+      const itemKey = isArray ? String(index) : key
+      if (isArray) {
+        (container as any[]).push(value)
+      } else {
+        Object.defineProperty(container, key, {
+          value,
+          writable: true,
+          enumerable: true,
+          configurable: true
+        })
+      }
+      index++
+      commented ||= containsComments(value)
+      const after = takeTrailing()
+      const hasComma = isPunctuation(',')
+      if (hasComma) {
+        after.push(...takeAll())
+        next()
+        after.push(...takeTrailing())
+      }
+      if (before.length > 0 || after.length > 0) {
+        const existing = comments.items[itemKey]
+        comments.items[itemKey] = existing === undefined ? { before, after } : {
+          before: existing.before.concat(before),
+          after: existing.after.concat(after)
+        }
+      }
+      if (!hasComma) {
+        comments.end = takeAll()
+        if (!isPunctuation(close)) unexpected()
+        break
+      }
+    }
+    next()
+    if (Object.keys(comments.items).length > 0 || comments.end.length > 0) {
+      containerComments.set(container, comments)
+      commented = true
+    }
+    if (commented) {
+      commentedContainers.add(container)
+      parsedComments = true
+    }
+    return container
+  }
+
+  next()
+  const before = takeAll()
+  const value = parseValue()
+  const after = takeAll()
+  if (token !== undefined) unexpected()
+  return { value, comments: { before, after } }
+}
@@ -0,0 +1,49 @@
+import { expect, test } from 'vitest'
+
+import { formatPath, matchSelector, parseSelector, ValuePath } from './path.ts'
+
+test('formatPath', () => {
+  expect(formatPath([])).toBe('$')
+  expect(formatPath([ 'nodes', 3, 'parent' ])).toBe('$.nodes[3].parent')
+  expect(formatPath([ 'parent node', '0' ])).toBe('$["parent node"]["0"]')
+})
+
+test('ValuePath', () => {
+  const path = new ValuePath([ 'a', 1 ])
+  expect(path.segments).toEqual([ 'a', 1 ])
+  expect(path.string).toBe('$.a[1]')
+  expect(`${path}`).toBe('$.a[1]')
+  const child = path.child('b c').child(2)
+  expect(child.string).toBe('$.a[1]["b c"][2]')
+  expect(child.segments).toEqual([ 'a', 1, 'b c', 2 ])
+})
+
+test('matchSelector', () => {
+  const match = (selector: string, path: (string | number)[]) => matchSelector(parseSelector(selector), path)
+  expect(match('$', [])).toBe(true)
+  expect(match('$', [ 'a' ])).toBe(false)
+  expect(match('$.a[0]', [ 'a', 0 ])).toBe(true)
+  expect(match('$.a[0]', [ 'a', '0' ])).toBe(false)
+  expect(match('$["a b"]', [ 'a b' ])).toBe(true)
+  expect(match('$["a\\"b"]', [ 'a"b' ])).toBe(true)
+  expect(match('$["a\\\\"]["]"]', [ 'a\\', ']' ])).toBe(true)
+  expect(match(formatPath([ 'x"]y' ]), [ 'x"]y' ])).toBe(true)
+  expect(match('$.a[*]', [ 'a', 5 ])).toBe(true)
+  expect(match('$.*[*]', [ 'a', 'b' ])).toBe(true)
+  expect(match('$.layer*', [ 'layers' ])).toBe(true)
+  expect(match('$.layer*', [ 'layer' ])).toBe(true)
+  expect(match('$.layer*', [ 'mylayer' ])).toBe(false)
+  expect(match('$.**.keys', [ 'keys' ])).toBe(true)
+  expect(match('$.**.keys', [ 'a', 0, 'b', 'keys' ])).toBe(true)
+  expect(match('$.**.keys', [ 'a', 'keys', 0 ])).toBe(false)
+  expect(match('$.**', [ 'a', 'b' ])).toBe(true)
+})
+
+test('parseSelector throws on invalid selectors', () => {
+  expect(() => parseSelector('a')).toThrow(`Invalid path selector 'a': it must start with '$'.`)
+  expect(() => parseSelector('$.')).toThrow(`expected a key after '.' at position 1`)
+  expect(() => parseSelector('$[0')).toThrow(`unclosed '[' at position 1`)
+  expect(() => parseSelector('$["a\\"]')).toThrow(`unclosed '[' at position 1`)
+  expect(() => parseSelector('$[a]')).toThrow(`expected a number, '*', or a string inside '[]' at position 1`)
+  expect(() => parseSelector('$a')).toThrow(`unexpected character 'a' at position 1`)
+})
@@ -0,0 +1,166 @@
+export type PathSegment = string | number
+
+/**
+ * The location of a value in the JSON structure, given to the callbacks in
+ * the options.
+ */
+export class ValuePath {
+  #segments: readonly PathSegment[] | undefined
+  #string: string | undefined
+  #parent: ValuePath | undefined
+  #key: PathSegment | undefined
+
+  constructor(segments: readonly PathSegment[]) {
+    this.#segments = segments
+  }
+
+  /**
+   * The property keys and array indices from the root to the value, like
+   * `[ 'nodes', 3, 'parent' ]`. Array indices are numbers.
+   */
+  get segments(): readonly PathSegment[] {
+    return this.#segments ??= [ ...this.#parent.segments, this.#key ]
+  }
+
+  /**
+   * The path as a string, like `$.nodes[3].parent`.
+   */
+  get string(): string {
+    return this.#string ??= this.#parent === undefined ? formatPath(this.segments) : this.#parent.string + formatSegment(this.#key)
+  }
+
+  /**
+   * Gets the path of a property or an array item of the value at this path.
+   * Its segments are only made once they are used.
+   */
+  child(key: PathSegment): ValuePath {
+    const path = new ValuePath(undefined)
+    path.#parent = this
+    path.#key = key
+    return path
+  }
+
+  toString(): string {
+    return this.string
+  }
+}
+
+/**
+ * Converts a path to a string like `$.nodes[3]["parent node"]`.
+ */
+export function formatPath(path: readonly PathSegment[]): string {
+  let result = '$'
+  for (const segment of path) {
+    result += formatSegment(segment)
+  }
+  return result
+}
+
+function formatSegment(segment: PathSegment): string {
+  return (
+    typeof segment === 'number' ? `[${segment}]` :
+    /^[a-zA-Z_$][\w$]*$/.test(segment) ? '.' + segment :
+    `[${JSON.stringify(segment)}]`
+  )
+}
+
+type SelectorSegment =
+  | { type: 'key', pattern: RegExp }
+  | { type: 'index', index: number }
+  | { type: 'any' }
+  | { type: 'deep' }
+
+/**
+ * A parsed path selector, see {@link parseSelector}.
+ */
+export type PathSelector = SelectorSegment[]
+
+function globPattern(glob: string): RegExp {
+  return new RegExp('^' + glob.split('*').map(s => s.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&')).join('.*') + '$', 's')
+}
+
+/**
+ * Finds the closing quote of the string literal that starts at the given
+ * position, skipping escaped characters, or returns `-1` if it isn't closed.
+ */
+function stringEnd(text: string, start: number): number {
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === '\\') i++
+    else if (text[i] === '"') return i
+  }
+  return -1
+}
+
+/**
+ * Parses a path selector like `$.layers[*].keyframes`. Selectors are paths
+ * that can contain these wildcards:
+ *
+ * - `*` or `[*]` matches any single key or index.
+ * - `*` inside a key, like `$.layer*`, matches any characters.
+ * - `**` matches any number of keys or indices, including none.
+ */
+export function parseSelector(selector: string): PathSelector {
+  const invalid = (message: string) => new Error(`Invalid path selector '${selector}': ${message}.`)
+  if (selector[0] !== '$') throw invalid(`it must start with '$'`)
+  const segments: PathSelector = []
+  let pos = 1
+  while (pos < selector.length) {
+    if (selector[pos] === '.') {
+      const match = /^[^.[\]]+/.exec(selector.slice(pos + 1))
+      if (match === null) throw invalid(`expected a key after '.' at position ${pos}`)
+      const key = match[0]
+      segments.push(
+        key === '**' ? { type: 'deep' } :
+        key === '*' ? { type: 'any' } :
+        { type: 'key', pattern: globPattern(key) }
+      )
+      pos += 1 + key.length
+    } else if (selector[pos] === '[') {
+      const keyEnd = selector[pos + 1] === '"' ? stringEnd(selector, pos + 1) : pos
+      const end = keyEnd < 0 ? -1 : selector.indexOf(']', keyEnd)
+      if (end < 0) throw invalid(`unclosed '[' at position ${pos}`)
+      const inner = selector.slice(pos + 1, end)
+      if (inner === '*') {
+        segments.push({ type: 'any' })
+      } else if (/^\d+$/.test(inner)) {
+        segments.push({ type: 'index', index: Number(inner) })
+      } else if (inner[0] === '"') {
+        let key: string
+        try {
+          key = JSON.parse(inner)
+        } catch {
+          throw invalid(`invalid key ${inner}`)
+        }
+        segments.push({ type: 'key', pattern: globPattern(key) })
+      } else {
+        throw invalid(`expected a number, '*', or a string inside '[]' at position ${pos}`)
+      }
+      pos = end + 1
+    } else {
+      throw invalid(`unexpected character '${selector[pos]}' at position ${pos}`)
+    }
+  }
+  return segments
+}
+
+/**
+ * Checks if a path matches a selector from {@link parseSelector}.
+ */
+export function matchSelector(selector: PathSelector, path: readonly PathSegment[], si = 0, pi = 0): boolean {
+  for (; si < selector.length; si++, pi++) {
+    const s = selector[si]
+    if (s.type === 'deep') {
+      for (let skip = pi; skip <= path.length; skip++) {
+        if (matchSelector(selector, path, si + 1, skip)) return true
+      }
+      return false
+    }
+    if (pi >= path.length) return false
+    const segment = path[pi]
+    if (
+      s.type === 'key' && (typeof segment !== 'string' || !s.pattern.test(segment)) ||
+      s.type === 'index' && segment !== s.index
+    ) return false
+  }
+  return pi === path.length
+}
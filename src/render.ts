@@ -0,0 +1,625 @@
+import type { ValuePath } from './path.js'
+
+type NodeBase = {
+  /**
+   * The location of the value in the JSON structure.
+   */
+  path: ValuePath
+  /**
+   * The value after it has been replaced and converted, for example the
+   * string a Date was converted to.
+   */
+  value: unknown
+}
+
+/**
+ * A value that isn't an array or object, like a string or a number.
+ */
+export type ScalarNode = NodeBase & {
+  type: 'Scalar'
+  /**
+   * The JSON text of the value, like `"text"` or `1.5`.
+   */
+  text: string
+}
+
+/**
+ * A property of an object and the layout of its value.
+ */
+export type LayoutProperty = {
+  key: string
+  value: LayoutNode
+}
+
+/**
+ * An array on a single line, like `[ 1, 2, 3 ]`.
+ */
+export type InlineArrayNode = NodeBase & {
+  type: 'InlineArray'
+  items: LayoutNode[]
+}
+
+/**
+ * An object on a single line, like `{ "a": 1, "b": 2 }`.
+ */
+export type InlineObjectNode = NodeBase & {
+  type: 'InlineObject'
+  properties: LayoutProperty[]
+}
+
+/**
+ * Comments to put around the items of a multi-line array or object, in the
+ * same order as the items.
+ */
+export type LayoutComments = {
+  items: ({ before: string[], after: string[] } | undefined)[]
+  end: string[]
+}
+
+/**
+ * An array with each item on its own line.
+ */
+export type MultilineArrayNode = NodeBase & {
+  type: 'MultilineArray'
+  items: LayoutNode[]
+  comments?: LayoutComments
+  /**
+   * The position that the decimal points of the items are aligned to, if the
+   * items are numbers that are aligned.
+   */
+  align?: number
+}
+
+/**
+ * An object with each property on its own line.
+ */
+export type MultilineObjectNode = NodeBase & {
+  type: 'MultilineObject'
+  properties: LayoutProperty[]
+  comments?: LayoutComments
+}
+
+/**
+ * A long array of numbers or strings with multiple items on each line,
+ * aligned in columns.
+ */
+export type CompactGridNode = NodeBase & {
+  type: 'CompactGrid'
+  items: ScalarNode[]
+  /**
+   * The width of each column. The number of columns is the number of items
+   * on each line.
+   */
+  columnWidths: number[]
+  /**
+   * The position in each column that the decimal points of the items are
+   * aligned to, if the items are numbers that are aligned.
+   */
+  align?: number[]
+}
+
+/**
+ * A column in a {@link TableNode table}.
+ */
+export type TableColumn = {
+  /**
+   * The index or key of the column in the rows.
+   */
+  key: string | number
+  /**
+   * The width of the widest cell in the column, including the key for rows
+   * that are objects.
+   */
+  width: number
+  /**
+   * The position that the decimal points of the numbers in the column are
+   * aligned to, if they are aligned.
+   */
+  align?: number
+  /**
+   * The columns of the nested table, if the cells in this column are rows of
+   * a nested table.
+   */
+  table?: {
+    columns: TableColumn[]
+    padEndOfRows: boolean
+  }
+}
+
+/**
+ * A row in a {@link TableNode table}, which is an array or object on a single
+ * line with its items in the columns of the table.
+ */
+export type TableRow = NodeBase & {
+  type: 'TableRow'
+  /**
+   * The key of the row in the object that the table is made from. This is
+   * only set for the rows of tables made from an object's properties.
+   */
+  key?: string
+  /**
+   * Whether the row is an array or an object.
+   */
+  kind: 'array' | 'object'
+  /**
+   * The cells of the row by column. Missing cells are `undefined`. Cells in
+   * columns that are nested tables are rows of those tables.
+   */
+  cells: (LayoutNode | TableRow | undefined)[]
+}
+
+/**
+ * An array or object with each item on its own line, where the items are
+ * arrays or objects that are aligned in columns like a table.
+ */
+export type TableNode = NodeBase & {
+  type: 'Table'
+  columns: TableColumn[]
+  rows: TableRow[]
+  /**
+   * Whether rows that are missing cells at the end are padded so that their
+   * closing brackets line up.
+   */
+  padEndOfRows: boolean
+  /**
+   * The indices of the columns that start a new line, if the rows are too
+   * long to fit on a single line. The lines after the first are indented one
+   * level further than the first cell of the row.
+   */
+  lineBreaks?: number[]
+  /**
+   * Comments to put around the rows. Comments after the rows are aligned in
+   * a column after the longest row.
+   */
+  comments?: LayoutComments
+}
+
+export type LayoutNode =
+  | ScalarNode
+  | InlineArrayNode
+  | InlineObjectNode
+  | MultilineArrayNode
+  | MultilineObjectNode
+  | CompactGridNode
+  | TableNode
+
+/**
+ * Checks if a node is always formatted on a single line.
+ */
+export function isSingleLine(node: LayoutNode): boolean {
+  return node.type === 'Scalar' || node.type === 'InlineArray' || node.type === 'InlineObject'
+}
+
+/**
+ * Gets the position to align a number to its decimal point, which is the
+ * index of the decimal point, or of the exponent or the end of the number if
+ * it has none. Hexadecimal numbers are aligned by their ends.
+ */
+export function decimalIndex(text: string): number {
+  // This is called for every number in aligned columns, so it avoids regular
+  // expressions
+  const sign = text[0] === '+' || text[0] === '-' ? 1 : 0
+  if (text[sign] === '0' && (text[sign + 1] === 'x' || text[sign + 1] === 'X')) return text.length
+  for (let i = 1; i < text.length; i++) {
+    if (text[i] === '.' || text[i] === 'e' || text[i] === 'E') return i
+  }
+  return text.length
+}
+
+/**
+ * Same as {@link decimalIndex}, but returns `NaN` if the text isn't a number.
+ * Most numbers are digits with at most a decimal point, which are checked
+ * while looking for the decimal point instead of converting the text.
+ */
+export function numberDecimalIndex(text: string): number {
+  const start = text[0] === '-' ? 1 : 0
+  let point = text.length
+  for (let i = start; i < text.length; i++) {
+    const c = text.charCodeAt(i)
+    if (c >= 48 && c <= 57) continue
+    if (c !== 46 || point < text.length || i === start || i === text.length - 1) {
+      return Number.isNaN(Number(text)) ? NaN : decimalIndex(text)
+    }
+    point = i
+  }
+  return start < text.length ? point : Number.isNaN(Number(text)) ? NaN : decimalIndex(text)
+}
+
+/**
+ * Moves the lines after the first in a block comment to the given indent,
+ * keeping their indentation relative to each other.
+ */
+export function reindentComment(comment: string, lineIndent: string): string {
+  const lines = comment.split('\n')
+  if (lines.length === 1) return comment
+  const rest = lines.slice(1)
+  const indents = rest.filter(l => l.trim().length > 0).map(l => l.length - l.trimStart().length)
+  const common = indents.length > 0 ? Math.min(...indents) : 0
+  return lines[0] + rest.map(l => '\n' + lineIndent + ' ' + l.slice(common)).join('')
+}
+
+/**
+ * A position in the output, with lines and columns starting at 1.
+ */
+export type SourcePosition = {
+  line: number
+  column: number
+}
+
+/**
+ * Where a value is in the output. The end is the position right after the
+ * last character of the value.
+ */
+export type SourceRange = {
+  start: SourcePosition
+  end: SourcePosition
+}
+
+/**
+ * Collects the output text, and the positions of the values in it if a
+ * source map is being made.
+ */
+class Writer {
+  readonly sourceMap: Map<string, SourceRange> | undefined
+  // The pieces are joined once the text is done. Adding each of them to the
+  // text would make a string for each addition, and those would all be kept
+  // for as long as the text is
+  #pieces: string[] = []
+  #length = 0
+  #line = 1
+  #lineStart = 0
+
+  constructor(sourceMap: boolean) {
+    this.sourceMap = sourceMap ? new Map() : undefined
+  }
+
+  get text(): string {
+    return this.#pieces.join('')
+  }
+
+  write(s: string) {
+    if (this.sourceMap !== undefined) {
+      for (let i = s.indexOf('\n'); i >= 0; i = s.indexOf('\n', i + 1)) {
+        this.#line++
+        this.#lineStart = this.#length + i + 1
+      }
+    }
+    this.#length += s.length
+    this.#pieces.push(s)
+  }
+
+  position(): SourcePosition {
+    return { line: this.#line, column: this.#length - this.#lineStart + 1 }
+  }
+
+  addRange(path: ValuePath, start: SourcePosition) {
+    this.sourceMap.set(path.string, { start, end: this.position() })
+  }
+}
+
+/**
+ * Where the rows of a table are split into multiple lines, and the indent of
+ * the lines after the first.
+ */
+type RowWrap = {
+  lineBreaks: number[]
+  indent: string
+}
+
+export type Renderer = {
+  /**
+   * Renders a node and everything in it.
+   * @param depth - The indentation level of the lines after the first.
+   */
+  render(node: LayoutNode, depth?: number): string
+  /**
+   * Same as {@link Renderer.render render}, but also returns the positions
+   * of all the values in the output by their paths.
+   */
+  renderWithSourceMap(node: LayoutNode): { text: string, sourceMap: Map<string, SourceRange> }
+  /**
+   * Gets the width of a cell of a table row, including the key of the column
+   * for rows that are objects.
+   */
+  measureCell(cell: LayoutNode | TableRow, column: TableColumn, kind: 'array' | 'object'): number
+  /**
+   * Gets the width of a table row on a single line.
+   */
+  measureRow(row: TableRow, columns: TableColumn[], padEndOfRows: boolean): number
+  /**
+   * Gets the width of a node rendered on a single line.
+   */
+  measure(node: LayoutNode): number
+}
+
+/**
+ * Creates the functions that turn layout nodes into text. Single-line nodes
+ * are measured without rendering them, since the layout is decided based on
+ * their widths.
+ *
+ * @param width - Measures the width of text, for padding the columns of
+ * tables and compact long arrays.
+ * @param quote - Converts keys to JSON string literals, or to JSON5 keys.
+ * @param trailingCommas - Adds a comma after the last item of arrays and
+ * objects that are on multiple lines, for JSON5.
+ */
+export function createRenderer(
+  indent: string,
+  prefixIndent: string,
+  width: (text: string) => number = text => text.length,
+  quote: (key: string) => string = JSON.stringify,
+  trailingCommas: boolean = false
+): Renderer {
+  const minify = indent.length === 0
+  const keySeparator = minify ? ':' : ': '
+  const quotedKeys = new Map<string, string>()
+  const cellKeys = new Map<string, { text: string, width: number }>()
+
+  /**
+   * Converts a key to text. Objects in large structures tend to share their
+   * keys, so each key is only converted once.
+   */
+  function quoteKey(key: string): string {
+    let text = quotedKeys.get(key)
+    if (text === undefined) {
+      text = quote(key)
+      quotedKeys.set(key, text)
+    }
+    return text
+  }
+
+  /**
+   * Gets the text that the cells in a column start with in rows that are
+   * objects, and its width. Each column is measured and written once for
+   * every row, so this is only done once for each key.
+   */
+  function cellKey(key: string): { text: string, width: number } {
+    let text = cellKeys.get(key)
+    if (text === undefined) {
+      const keyText = quoteKey(key) + ': '
+      text = { text: keyText, width: width(keyText) }
+      cellKeys.set(key, text)
+    }
+    return text
+  }
+
+  function render(node: LayoutNode, depth: number = 0): string {
+    if (node.type === 'Scalar') return node.text
+    const out = new Writer(false)
+    writeNode(node, depth, out)
+    return out.text
+  }
+
+  function renderWithSourceMap(node: LayoutNode): { text: string, sourceMap: Map<string, SourceRange> } {
+    const out = new Writer(true)
+    writeNode(node, 0, out)
+    return { text: out.text, sourceMap: out.sourceMap }
+  }
+
+  function measureCell(cell: LayoutNode | TableRow, column: TableColumn, kind: 'array' | 'object'): number {
+    return writeCell(cell, column, kind, undefined)
+  }
+
+  function measureRow(row: TableRow, columns: TableColumn[], padEndOfRows: boolean): number {
+    return writeRow(row, columns, padEndOfRows, undefined)
+  }
+
+  function measure(node: LayoutNode): number {
+    if (node.type === 'Scalar') return width(node.text)
+    if (node.type === 'InlineArray' || node.type === 'InlineObject') return measureInline(node)
+    return width(render(node))
+  }
+
+  function measureInline(node: InlineArrayNode | InlineObjectNode): number {
+    const count = node.type === 'InlineArray' ? node.items.length : node.properties.length
+    if (count === 0) return 2
+    // The brackets, and the commas between the items, with spaces after them
+    // unless minified
+    let total = minify ? count + 1 : count * 2 + 2
+    for (let i = 0; i < count; i++) {
+      if (node.type === 'InlineArray') {
+        total += measure(node.items[i])
+      } else {
+        total += width(quoteKey(node.properties[i].key)) + keySeparator.length + measure(node.properties[i].value)
+      }
+    }
+    return total
+  }
+
+  function writeNode(node: LayoutNode, depth: number, out: Writer) {
+    const start = out.sourceMap === undefined ? undefined : out.position()
+    if (node.type === 'Scalar') {
+      out.write(node.text)
+    } else {
+      writeContainer(node, depth, out)
+    }
+    if (start !== undefined) out.addRange(node.path, start)
+  }
+
+  function writeContainer(node: Exclude<LayoutNode, ScalarNode>, depth: number, out: Writer) {
+    const isArray =
+      node.type === 'InlineArray' ||
+      node.type === 'MultilineArray' ||
+      node.type === 'CompactGrid' ||
+      node.type === 'Table' && !node.rows.some(row => row.key !== undefined)
+    const open = isArray ? '[' : '{'
+    const close = isArray ? ']' : '}'
+    // Set below for tables with rows on multiple lines, before the rows are
+    // written
+    let wrap: RowWrap | undefined
+    const isObject = node.type === 'InlineObject' || node.type === 'MultilineObject'
+    const count = node.type === 'Table' ? node.rows.length : isObject ? node.properties.length : node.items.length
+    const keyAt = (i: number) => node.type === 'Table' ? node.rows[i].key : isObject ? node.properties[i].key : undefined
+    const writeItem = (i: number) => {
+      if (node.type === 'Table') {
+        writeRow(node.rows[i], node.columns, minify ? false : node.padEndOfRows, out, wrap)
+      } else {
+        writeNode(isObject ? node.properties[i].value : node.items[i], depth + 1, out)
+      }
+    }
+
+    if (count === 0 && !(node.type === 'MultilineArray' || node.type === 'MultilineObject') || minify) {
+      out.write(open)
+      for (let i = 0; i < count; i++) {
+        if (i > 0) out.write(',')
+        const key = keyAt(i)
+        if (key !== undefined) out.write(quoteKey(key) + keySeparator)
+        writeItem(i)
+      }
+      out.write(close)
+      return
+    }
+
+    if (node.type === 'InlineArray' || node.type === 'InlineObject') {
+      out.write(open + ' ')
+      for (let i = 0; i < count; i++) {
+        if (i > 0) out.write(', ')
+        const key = keyAt(i)
+        if (key !== undefined) out.write(quoteKey(key) + keySeparator)
+        writeItem(i)
+      }
+      out.write(' ' + close)
+      return
+    }
+
+    const itemIndent = prefixIndent + indent.repeat(depth + 1)
+    const endIndent = prefixIndent + indent.repeat(depth)
+    const itemLine = '\n' + itemIndent
+
+    if (node.type === 'CompactGrid') {
+      const itemsWide = node.columnWidths.length
+      let previousWidth = 0
+      out.write(open)
+      for (let i = 0; i < node.items.length; i++) {
+        const column = i % itemsWide
+        if (column === 0) {
+          out.write(i > 0 ? ',' + itemLine : itemLine)
+        } else {
+          out.write(',' + ' '.repeat(Math.max(0, node.columnWidths[column - 1] - previousWidth + 1)))
+        }
+        const padding = node.align === undefined ? 0 : Math.max(0, node.align[column] - decimalIndex(node.items[i].text))
+        out.write(' '.repeat(padding))
+        writeItem(i)
+        previousWidth = padding + measure(node.items[i])
+      }
+      out.write((trailingCommas ? ',' : '') + '\n' + endIndent + close)
+      return
+    }
+
+    let keyColumnWidth = 0
+    if (node.type === 'Table' && !isArray) {
+      keyColumnWidth = Math.max(...node.rows.map(row => width(quoteKey(row.key)))) + 1
+    }
+    if (node.type === 'Table' && node.lineBreaks !== undefined) {
+      wrap = {
+        lineBreaks: node.lineBreaks,
+        indent: itemIndent + ' '.repeat(keyColumnWidth + (isArray ? 0 : 1) + 2) + indent
+      }
+    }
+    const keyText = (key: string) => {
+      const jsonKey = quoteKey(key)
+      return node.type === 'Table' ? jsonKey + ':' + ' '.repeat(keyColumnWidth - width(jsonKey)) : jsonKey + keySeparator
+    }
+    const comments = node.type === 'MultilineArray' || node.type === 'MultilineObject' || node.type === 'Table' ? node.comments : undefined
+    let commentColumn = 0
+    // The widths of the last lines of the rows, before the comments after them
+    const lineWidths: number[] = []
+    if (node.type === 'Table' && comments?.items.some(c => c !== undefined && c.after.length > 0)) {
+      for (let i = 0; i < node.rows.length; i++) {
+        const rowOut = new Writer(false)
+        rowOut.write(itemIndent + (node.rows[i].key === undefined ? '' : keyText(node.rows[i].key)))
+        writeRow(node.rows[i], node.columns, node.padEndOfRows, rowOut, wrap)
+        if (i < count - 1 || trailingCommas) rowOut.write(',')
+        lineWidths[i] = width(rowOut.text.slice(rowOut.text.lastIndexOf('\n') + 1))
+        commentColumn = Math.max(commentColumn, lineWidths[i])
+      }
+    }
+    out.write(open)
+    for (let i = 0; i < count; i++) {
+      const itemComments = comments?.items[i]
+      for (const c of itemComments?.before ?? []) {
+        out.write('\n' + itemIndent + reindentComment(c, itemIndent))
+      }
+      out.write(itemLine)
+      const key = keyAt(i)
+      if (key !== undefined) out.write(keyText(key))
+      if (node.type === 'MultilineArray' && node.align !== undefined) {
+        out.write(' '.repeat(Math.max(0, node.align - decimalIndex(render(node.items[i])))))
+      }
+      writeItem(i)
+      if (i < count - 1 || trailingCommas) out.write(',')
+      if (itemComments !== undefined && itemComments.after.length > 0) {
+        out.write(' '.repeat(Math.max(1, commentColumn - (lineWidths[i] ?? 0) + 1)) + itemComments.after.map(c => reindentComment(c, itemIndent)).join(' '))
+      }
+    }
+    for (const c of comments?.end ?? []) {
+      out.write('\n' + itemIndent + reindentComment(c, itemIndent))
+    }
+    out.write('\n' + endIndent + close)
+  }
+
+  /**
+   * Writes a cell of a table row, and returns its width. Without a writer,
+   * the cell is only measured.
+   */
+  function writeCell(cell: LayoutNode | TableRow, column: TableColumn, kind: 'array' | 'object', out: Writer | undefined): number {
+    let cellWidth = 0
+    if (kind === 'object') {
+      const key = cellKey(column.key as string)
+      out?.write(key.text)
+      cellWidth += key.width
+    }
+    if (cell.type === 'TableRow') {
+      return cellWidth + writeRow(cell, column.table.columns, column.table.padEndOfRows, out)
+    }
+    if (column.align !== undefined) {
+      const padding = Math.max(0, column.align - decimalIndex(render(cell)))
+      out?.write(' '.repeat(padding))
+      cellWidth += padding
+    }
+    if (out !== undefined) writeNode(cell, 0, out)
+    return cellWidth + measure(cell)
+  }
+
+  /**
+   * Same as {@link writeCell}, but for table rows. The width is of the last
+   * line of rows that are split into multiple lines.
+   */
+  function writeRow(row: TableRow, columns: TableColumn[], padEndOfRows: boolean, out: Writer | undefined, wrap?: RowWrap): number {
+    const start = out?.sourceMap === undefined ? undefined : out.position()
+    out?.write(row.kind === 'array' ? '[ ' : '{ ')
+    let lineWidth = 2
+    let lastFilledColumn = row.cells.length - 1
+    while (lastFilledColumn >= 0 && row.cells[lastFilledColumn] === undefined) lastFilledColumn--
+    const end = padEndOfRows ? columns.length : lastFilledColumn + 1
+    // Padding is only written when something comes after it, so that lines
+    // don't end with spaces
+    let padding = 0
+    for (let i = 0; i < end; i++) {
+      if (wrap?.lineBreaks.includes(i)) {
+        if (i > lastFilledColumn) break
+        out?.write('\n' + wrap.indent)
+        lineWidth = width(wrap.indent)
+        padding = 0
+      }
+      const cell = row.cells[i]
+      if (cell === undefined) {
+        padding += columns[i].width + 2
+        continue
+      }
+      out?.write(' '.repeat(padding))
+      const cellWidth = writeCell(cell, columns[i], row.kind, out)
+      lineWidth += padding + cellWidth
+      if (i !== lastFilledColumn) {
+        out?.write(',')
+        lineWidth++
+      }
+      padding = Math.max(0, columns[i].width - cellWidth + 1)
+    }
+    out?.write(' '.repeat(padding) + (row.kind === 'array' ? ']' : '}'))
+    if (start !== undefined) out.addRange(row.path, start)
+    return lineWidth + padding + 1
+  }
+
+  return { render, renderWithSourceMap, measure, measureCell, measureRow }
+}
@@ -0,0 +1,90 @@
+import { expect, test } from 'vitest'
+import dedent from 'dedent'
+
+import stringify, { stringifyLayout, type LayoutNode } from './index.ts'
+import { indexLayout, parseLayout } from './stable.ts'
+
+function layoutTypes(node: LayoutNode): Record<string, string> {
+  return Object.fromEntries(Array.from(indexLayout(node), ([ path, n ]) => [ path, n.type ]))
+}
+
+test('parseLayout reads the layout of stringify output', () => {
+  const value = {
+    name: 'test',
+    point: { x: 1, y: [ 2, 3 ] },
+    rows: [
+      { id: 1, value: 0.5 },
+      { id: 22, value: 10 }
+    ],
+    list: Array.from({ length: 20 }, (_, i) => i * 11),
+    nested: { a: { b: [ 1, { c: 2 } ], d: 1 } }
+  }
+  for (const options of [ {}, { indent: 4 }, { prefixIndent: 2 }, { maxLineLength: 30 } ]) {
+    const text = stringify(value, options)
+    expect(layoutTypes(parseLayout(text))).toEqual(layoutTypes(stringifyLayout(value, options)))
+  }
+})
+
+test('parseLayout reads table columns', () => {
+  const table = parseLayout(dedent`
+    {
+      "a":   { "x":  1,   "y": [ 1, "a"   ] },
+      "bbb": { "x": 10.5, "y": [ 2, "bcd" ] },
+      "c":   {            "y": [ 3, "d"   ] }
+    }
+  `)
+  expect(table.type).toBe('Table')
+  if (table.type !== 'Table') return
+  expect(table.columns).toEqual([
+    { key: 'x', width: 9, align: 2 },
+    {
+      key: 'y',
+      width: 17,
+      table: {
+        columns: [ { key: 0, width: 1, align: 1 }, { key: 1, width: 5 } ],
+        padEndOfRows: true
+      }
+    }
+  ])
+  expect(table.rows.map(row => row.key)).toEqual([ 'a', 'bbb', 'c' ])
+  expect(table.rows[2].cells[0]).toBe(undefined)
+})
+
+test('parseLayout reads compact long arrays', () => {
+  const grid = parseLayout(dedent`
+    [
+      1,   22, 333,
+      4444, 5, 6
+    ]
+  `)
+  expect(grid).toMatchObject({ type: 'CompactGrid', columnWidths: [ 4, 2, 3 ] })
+})
+
+test('parseLayout reads aligned numbers', () => {
+  const grid = parseLayout(dedent`
+    [
+      1000.5,  0.25, 12.5,
+         4.5, 55.75,  6.5
+    ]
+  `)
+  expect(grid).toMatchObject({ type: 'CompactGrid', columnWidths: [ 6, 5, 4 ], align: [ 4, 2, 2 ] })
+  const list = parseLayout(dedent`
+    [
+      1000.5,
+         0.25,
+        -3
+    ]
+  `)
+  expect(list).toMatchObject({ type: 'MultilineArray', align: 4 })
+})
+
+test('parseLayout ignores comments', () => {
+  const node = parseLayout(dedent`
+    // Comment
+    {
+      "a": [ 1, 2 ], // Comment
+      "b": 1
+    }
+  `)
+  expect(layoutTypes(node)).toEqual({ '$': 'MultilineObject', '$.a': 'InlineArray' })
+})
@@ -0,0 +1,416 @@
+import { JSONSyntaxError, NumberLiteral, parseStringToken, tokenize, type Token } from './parse.js'
+import { ValuePath, type PathSegment } from './path.js'
+import type { WidthMode } from './width.js'
+import {
+  decimalIndex,
+  type LayoutNode,
+  type LayoutProperty,
+  type ScalarNode,
+  type TableColumn,
+  type TableNode,
+  type TableRow
+} from './render.js'
+
+/**
+ * A value read from JSON text, with the offsets of where it starts and ends.
+ */
+type TextValue = {
+  node: LayoutNode
+  start: number
+  end: number
+  /**
+   * The items of an array or object.
+   */
+  items?: TextItem[]
+  /**
+   * The offset of the closing bracket of an array or object.
+   */
+  close?: number
+}
+
+type TextItem = {
+  key: PathSegment
+  /**
+   * The offset where the item starts, which is the start of the key for
+   * properties of objects.
+   */
+  start: number
+  /**
+   * The key of a property as it is written in the text.
+   */
+  keyText?: string
+  value: TextValue
+}
+
+/**
+ * Reads the layout of formatted JSON text, so that it can be kept when the
+ * value is formatted again. Tables and compact long arrays are recognized by
+ * the positions of their items, and their column widths are read from the
+ * whitespace between them. Comments are skipped.
+ *
+ * @param text - JSON or JSON5 text, which may contain comments and trailing
+ * commas.
+ * @param width - Measures the width of text, see {@link WidthMode}.
+ * @returns The layout tree of the text.
+ * @throws {JSONSyntaxError} If the text is not valid JSON.
+ */
+export function parseLayout(text: string, width: (text: string) => number = text => text.length): LayoutNode {
+  const tokens = Array.from(tokenize(text, { comments: true, json5: true })).filter(t => t.type !== 'comment')
+  const lineStarts = [ 0 ]
+  for (let i = text.indexOf('\n'); i >= 0; i = text.indexOf('\n', i + 1)) {
+    lineStarts.push(i + 1)
+  }
+  let pos = 0
+
+  function lineOf(offset: number): number {
+    let low = 0
+    let high = lineStarts.length - 1
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2)
+      if (lineStarts[mid] <= offset) low = mid
+      else high = mid - 1
+    }
+    return low
+  }
+
+  function columnOf(offset: number): number {
+    return span(lineStarts[lineOf(offset)], offset)
+  }
+
+  /**
+   * Gets the width of the text between two offsets.
+   */
+  function span(start: number, end: number): number {
+    return width(text.slice(start, end))
+  }
+
+  function unexpected(token: Token | undefined): never {
+    if (token === undefined) throw new JSONSyntaxError('Unexpected end of input', text, text.length)
+    throw new JSONSyntaxError(`Unexpected token '${token.text}'`, text, token.offset)
+  }
+
+  function expect(p: string): Token {
+    const token = tokens[pos]
+    if (token?.type !== 'punctuation' || token.text !== p) unexpected(token)
+    pos++
+    return token
+  }
+
+  function isPunctuation(p: string): boolean {
+    return tokens[pos]?.type === 'punctuation' && tokens[pos].text === p
+  }
+
+  function readValue(path: PathSegment[]): TextValue {
+    const token = tokens[pos]
+    if (token === undefined || token.type === 'comment' || token.type === 'identifier') unexpected(token)
+    if (token.type !== 'punctuation') {
+      pos++
+      const n = Number(token.text)
+      const node: ScalarNode = {
+        type: 'Scalar',
+        path: new ValuePath(path),
+        value:
+          token.type === 'string' ? parseStringToken(token.text) :
+          token.type === 'number' ? String(n) === token.text ? n : new NumberLiteral(token.text) :
+          token.type === 'boolean' ? token.text === 'true' :
+          null,
+        text: token.text
+      }
+      return { node, start: token.offset, end: token.offset + token.text.length }
+    }
+    if (token.text !== '[' && token.text !== '{') unexpected(token)
+    const isArray = token.text === '['
+    const closeChar = isArray ? ']' : '}'
+    pos++
+    const items: TextItem[] = []
+    while (!isPunctuation(closeChar)) {
+      const start = tokens[pos]?.offset
+      let key: PathSegment = items.length
+      let keyText: string | undefined
+      if (!isArray) {
+        const keyToken = tokens[pos]
+        if (keyToken?.type !== 'string' && keyToken?.type !== 'identifier') unexpected(keyToken)
+        key = keyToken.type === 'string' ? parseStringToken(keyToken.text) : keyToken.text
+        keyText = keyToken.text
+        pos++
+        expect(':')
+      }
+      items.push({ key, start, keyText, value: readValue([...path, key]) })
+      if (!isPunctuation(',')) break
+      pos++
+    }
+    const close = expect(closeChar).offset
+    const value = Object.fromEntries(items.map(item => [item.key, item.value.node.value]))
+    const base = {
+      path: new ValuePath(path),
+      value: isArray ? items.map(item => item.value.node.value) : value
+    }
+    const textValue: TextValue = { node: undefined, start: token.offset, end: close + 1, items, close }
+    textValue.node =
+      lineOf(token.offset) === lineOf(close) ?
+        isArray ?
+          { type: 'InlineArray', ...base, items: items.map(item => item.value.node) } :
+          { type: 'InlineObject', ...base, properties: items.map(toProperty) } :
+      isArray && items.length > 0 && isGrid(items) ?
+        { type: 'CompactGrid', ...base, items: items.map(item => item.value.node as ScalarNode), ...gridColumns(items) } :
+      readTable(textValue, base) ??
+      (isArray ?
+        { type: 'MultilineArray', ...base, items: items.map(item => item.value.node), align: multilineAlign(items) } :
+        { type: 'MultilineObject', ...base, properties: items.map(toProperty) })
+    return textValue
+  }
+
+  function toProperty(item: TextItem): LayoutProperty {
+    return { key: item.key as string, value: item.value.node }
+  }
+
+  function isSingleLine(value: TextValue): boolean {
+    return lineOf(value.start) === lineOf(value.end - 1)
+  }
+
+  function isGrid(items: TextItem[]): boolean {
+    return (
+      items.every(item => item.value.node.type === 'Scalar') &&
+      items.some((item, i) => i > 0 && lineOf(item.start) === lineOf(items[i - 1].start))
+    )
+  }
+
+  /**
+   * Gets the positions of the decimal points of items that are numbers, or
+   * `NaN` for other items.
+   */
+  function decimalPoints(items: TextItem[]): number[] {
+    return items.map(item => {
+      const node = item.value.node
+      return node.type === 'Scalar' && isNumber(node.text) ? columnOf(item.start) + decimalIndex(node.text) : NaN
+    })
+  }
+
+  function gridColumns(items: TextItem[]): { columnWidths: number[], align?: number[] } {
+    const firstLine = lineOf(items[0].start)
+    let itemsWide = 0
+    while (itemsWide < items.length && lineOf(items[itemsWide].start) === firstLine) itemsWide++
+    const columnWidths: number[] = Array(itemsWide).fill(0)
+    const points = decimalPoints(items)
+    if (points.every((p, i) => p === points[i % itemsWide])) {
+      // The padding in front of aligned numbers can't be told apart from the
+      // padding at the end of the previous column, so the columns are read as
+      // ending right after their widest items
+      const ends: number[] = Array(itemsWide).fill(0)
+      let start = Infinity
+      for (let i = 0; i < items.length; i++) {
+        ends[i % itemsWide] = Math.max(ends[i % itemsWide], columnOf(items[i].value.end))
+        if (i % itemsWide === 0) start = Math.min(start, columnOf(items[i].start))
+      }
+      const align: number[] = []
+      for (let i = 0; i < itemsWide; i++) {
+        align[i] = points[i] - start
+        columnWidths[i] = ends[i] - start
+        start = ends[i] + 2
+      }
+      return { columnWidths, align }
+    }
+    for (let i = 0; i < items.length; i++) {
+      const next = items[i + 1]
+      const width = next !== undefined && lineOf(next.start) === lineOf(items[i].start) ?
+        span(items[i].start, next.start) - 2 :
+        span(items[i].value.start, items[i].value.end)
+      columnWidths[i % itemsWide] = Math.max(columnWidths[i % itemsWide], width)
+    }
+    return { columnWidths }
+  }
+
+  function multilineAlign(items: TextItem[]): number | undefined {
+    const points = decimalPoints(items)
+    if (items.length === 0 || points.some(p => p !== points[0])) return undefined
+    return points[0] - Math.min(...items.map(item => columnOf(item.start)))
+  }
+
+  /**
+   * Checks if a row is an array, which is read as another layout when it is
+   * split into multiple lines.
+   */
+  function isArrayRow(row: TextValue): boolean {
+    return row.node.type === 'InlineArray' || row.node.type === 'MultilineArray' || row.node.type === 'CompactGrid'
+  }
+
+  /**
+   * Gets the position of an offset in a row, as the line counting from the
+   * first line of the row, and the width of the text before it on that line
+   * counting from where the row starts.
+   */
+  function rowPosition(row: TextValue, offset: number): { line: number, column: number } {
+    const line = lineOf(offset) - lineOf(row.start)
+    return { line, column: line === 0 ? span(row.start, offset) : columnOf(offset) - columnOf(row.start) }
+  }
+
+  /**
+   * Reads the columns of a table from its rows, or returns `null` if the
+   * items of the rows aren't aligned in columns.
+   *
+   * @param wrapped - Allows rows that are split into multiple lines.
+   */
+  function readColumns(rows: TextValue[], wrapped = false): {
+    columns: TableColumn[]
+    cells: (LayoutNode | TableRow)[][]
+    padEndOfRows: boolean
+    lineBreaks: number[]
+  } | null {
+    const first = rows.find(row => row !== undefined)
+    if (first === undefined || first.items === undefined) return null
+    const kind = isArrayRow(first) ? 'array' : 'object'
+    const columnItems = new Map<PathSegment, TextItem[]>()
+    for (let j = 0; j < rows.length; j++) {
+      const row = rows[j]
+      if (row === undefined) continue
+      if (row.items === undefined || isArrayRow(row) !== (kind === 'array')) return null
+      if (wrapped ? row.items.some(item => !isSingleLine(item.value)) : !isSingleLine(row)) return null
+      for (const item of row.items) {
+        if (!columnItems.has(item.key)) columnItems.set(item.key, Array(rows.length))
+        columnItems.get(item.key)[j] = item
+      }
+    }
+    // Tables without columns have rows like `{ }`, unlike empty inline objects
+    if (columnItems.size === 0 && rows.some(row => row !== undefined && row.close - row.start !== 2)) return null
+
+    // Numbers in rows that are arrays can be padded to align their decimal
+    // points, and then the column starts where the leftmost one starts
+    const positions = new Map<PathSegment, number>()
+    const lines = new Map<PathSegment, number>()
+    for (const [ key, items ] of columnItems) {
+      const starts: number[] = []
+      const points: number[] = []
+      let line: number | undefined
+      for (let j = 0; j < items.length; j++) {
+        const item = items[j]
+        if (item === undefined) continue
+        const position = rowPosition(rows[j], item.start)
+        if ((line ??= position.line) !== position.line) return null
+        starts.push(position.column)
+        const node = item.value.node
+        points.push(node.type === 'Scalar' && isNumber(node.text) ? position.column + decimalIndex(node.text) : NaN)
+      }
+      if (starts.some(start => start !== starts[0]) && (kind === 'object' || points.some(p => p !== points[0]))) return null
+      positions.set(key, Math.min(...starts))
+      lines.set(key, line)
+    }
+    const keys = Array.from(positions.keys()).sort((a, b) => lines.get(a) - lines.get(b) || positions.get(a) - positions.get(b))
+    // Each line of the rows continues where the previous one ends, and no
+    // line of a row is empty
+    const lineBreaks: number[] = []
+    for (let i = 0; i < keys.length; i++) {
+      const line = lines.get(keys[i])
+      const previousLine = i === 0 ? 0 : lines.get(keys[i - 1])
+      if (line === previousLine) continue
+      if (line !== previousLine + 1 || i === 0) return null
+      lineBreaks.push(i)
+    }
+    for (const row of rows) {
+      if (row === undefined || row.items.length === 0) continue
+      const rowLines = new Set(row.items.map(item => lineOf(item.start) - lineOf(row.start)))
+      if (rowLines.size !== lineOf(row.close) - lineOf(row.start) + 1) return null
+    }
+    const columns: TableColumn[] = []
+    const cells: (LayoutNode | TableRow)[][] = rows.map(() => [])
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i]
+      const start = positions.get(key)
+      const column: TableColumn = { key, width: 0 }
+      columns.push(column)
+      const columnCells = columnItems.get(key)
+      const values = columnCells.map(cell => cell?.value)
+      const sub = values.every(v => v === undefined || v.items !== undefined) ? readColumns(values) : null
+      const endsLine = i < keys.length - 1 && lines.get(keys[i + 1]) !== lines.get(key)
+      if (sub !== null) {
+        column.table = { columns: sub.columns, padEndOfRows: sub.padEndOfRows }
+      }
+      let align: number | undefined = 0
+      for (let j = 0; j < rows.length; j++) {
+        const cell = columnCells[j]
+        if (cell === undefined) continue
+        const node = cell.value.node
+        cells[j][i] = sub === null ? node : {
+          type: 'TableRow',
+          path: node.path,
+          value: node.value,
+          kind: node.type === 'InlineArray' ? 'array' : 'object',
+          cells: sub.cells[j]
+        }
+        if (align !== undefined && node.type === 'Scalar' && isNumber(node.text)) {
+          const padding = rowPosition(rows[j], cell.value.start).column - start - (kind === 'object' ? width(cell.keyText) + 2 : 0)
+          align = Math.max(align, padding + decimalIndex(node.text))
+        } else {
+          align = undefined
+        }
+        // The padding after the last column on a line isn't written, so those
+        // are only as wide as their widest cell
+        column.width = Math.max(column.width,
+          endsLine ? rowPosition(rows[j], cell.value.end).column - start :
+          i < keys.length - 1 ? positions.get(keys[i + 1]) - start - 2 :
+          rowPosition(rows[j], rows[j].close).column - start - 1)
+      }
+      if (align !== undefined && sub === null) column.align = align
+    }
+    // Rows that end on the same line end in the same place if they're padded
+    const ends = new Map<number, number>()
+    let padEndOfRows = true
+    for (const row of rows) {
+      if (row === undefined) continue
+      const { line, column } = rowPosition(row, row.close)
+      if ((ends.get(line) ?? column) !== column) padEndOfRows = false
+      ends.set(line, column)
+    }
+    return { columns, cells, padEndOfRows, lineBreaks }
+  }
+
+  function readTable(container: TextValue, base: { path: ValuePath, value: unknown }): TableNode | null {
+    const { items } = container
+    if (items.length === 0) return null
+    const rowStarts = items.map(item => columnOf(item.value.start))
+    if (rowStarts.some(start => start !== rowStarts[0])) return null
+    const rows = items.map(item => item.value)
+    const table = readColumns(rows, true)
+    if (table === null) return null
+    return {
+      type: 'Table',
+      ...base,
+      columns: table.columns,
+      rows: rows.map((row, j): TableRow => ({
+        type: 'TableRow',
+        path: row.node.path,
+        value: row.node.value,
+        key: typeof items[j].key === 'string' ? items[j].key as string : undefined,
+        kind: isArrayRow(row) ? 'array' : 'object',
+        cells: table.cells[j]
+      })),
+      padEndOfRows: table.padEndOfRows,
+      ...table.lineBreaks.length > 0 && { lineBreaks: table.lineBreaks }
+    }
+  }
+
+  const root = readValue([])
+  if (pos < tokens.length) unexpected(tokens[pos])
+  return root.node
+}
+
+function isNumber(text: string): boolean {
+  return !Number.isNaN(Number(text))
+}
+
+/**
+ * Collects the arrays and objects in a layout tree by their paths, including
+ * the rows of tables.
+ */
+export function indexLayout(node: LayoutNode | TableRow, index = new Map<string, LayoutNode | TableRow>()): Map<string, LayoutNode | TableRow> {
+  if (node.type === 'Scalar') return index
+  index.set(node.path.string, node)
+  const children =
+    node.type === 'InlineObject' || node.type === 'MultilineObject' ? node.properties.map(p => p.value) :
+    node.type === 'Table' ? node.rows :
+    node.type === 'TableRow' ? node.cells :
+    node.items
+  for (const child of children) {
+    if (child !== undefined) indexLayout(child, index)
+  }
+  return index
+}
@@ -0,0 +1,40 @@
+import { expect, test } from 'vitest'
+
+import { getWidthFunction } from './width.ts'
+
+test('utf16 width', () => {
+  const width = getWidthFunction('utf16')
+  expect(width('abc')).toBe(3)
+  expect(width('日本')).toBe(2)
+  expect(width('😀')).toBe(2)
+})
+
+test('codepoints width', () => {
+  const width = getWidthFunction('codepoints')
+  expect(width('abc')).toBe(3)
+  expect(width('日本')).toBe(2)
+  expect(width('😀')).toBe(1)
+  expect(width('a😀b')).toBe(3)
+  expect(width('é')).toBe(2)
+})
+
+test('display width', () => {
+  const width = getWidthFunction('display')
+  expect(width('abc')).toBe(3)
+  expect(width('"日本語"')).toBe(8)
+  expect(width('ｶﾀｶﾅ')).toBe(4)
+  expect(width('ＡＢ')).toBe(4)
+  expect(width('한국어')).toBe(6)
+  expect(width('😀')).toBe(2)
+  expect(width('👨‍👩‍👧')).toBe(2)
+  expect(width('🇯🇵')).toBe(2)
+  expect(width('❤')).toBe(1)
+  expect(width('❤️')).toBe(2)
+  expect(width('é')).toBe(1)
+  expect(width('́')).toBe(0)
+  expect(width('a​b')).toBe(2)
+})
+
+test('invalid width mode', () => {
+  expect(() => getWidthFunction('bytes' as any)).toThrow(`'widthMode' must be 'utf16', 'codepoints', or 'display'.`)
+})
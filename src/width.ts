@@ -0,0 +1,110 @@
+/**
+ * How the width of text is measured for line lengths and table columns.
+ *
+ * - `'utf16'` counts UTF-16 code units, like `String.prototype.length`.
+ * - `'codepoints'` counts Unicode code points, so characters outside the
+ *   Basic Multilingual Plane, like most emoji, count as one.
+ * - `'display'` counts the columns the text takes up in a terminal or an
+ *   editor with a monospace font. Wide characters like CJK ideographs and
+ *   emoji count as two, and combining characters as zero. Characters are
+ *   grouped into graphemes, so an emoji sequence counts as one emoji.
+ */
+export type WidthMode = 'utf16' | 'codepoints' | 'display'
+
+/**
+ * The ranges of code points that are wide (W) or fullwidth (F) according to
+ * Unicode's East Asian Width property, as pairs of first and last code point.
+ */
+const wideRanges = [
+  0x1100, 0x115f, 0x231a, 0x231b, 0x2329, 0x232a, 0x23e9, 0x23ec, 0x23f0, 0x23f0,
+  0x23f3, 0x23f3, 0x25fd, 0x25fe, 0x2614, 0x2615, 0x2648, 0x2653, 0x267f, 0x267f,
+  0x2693, 0x2693, 0x26a1, 0x26a1, 0x26aa, 0x26ab, 0x26bd, 0x26be, 0x26c4, 0x26c5,
+  0x26ce, 0x26ce, 0x26d4, 0x26d4, 0x26ea, 0x26ea, 0x26f2, 0x26f3, 0x26f5, 0x26f5,
+  0x26fa, 0x26fa, 0x26fd, 0x26fd, 0x2705, 0x2705, 0x270a, 0x270b, 0x2728, 0x2728,
+  0x274c, 0x274c, 0x274e, 0x274e, 0x2753, 0x2755, 0x2757, 0x2757, 0x2795, 0x2797,
+  0x27b0, 0x27b0, 0x27bf, 0x27bf, 0x2b1b, 0x2b1c, 0x2b50, 0x2b50, 0x2b55, 0x2b55,
+  0x2e80, 0x303e, 0x3041, 0x33ff, 0x3400, 0x4dbf, 0x4e00, 0xa4cf, 0xa960, 0xa97f,
+  0xac00, 0xd7a3, 0xf900, 0xfaff, 0xfe10, 0xfe19, 0xfe30, 0xfe6f, 0xff00, 0xff60,
+  0xffe0, 0xffe6, 0x16fe0, 0x16fe4, 0x16ff0, 0x16ff1, 0x17000, 0x18cd5, 0x18d00, 0x18d08,
+  0x1aff0, 0x1b2fb, 0x1f004, 0x1f004, 0x1f0cf, 0x1f0cf, 0x1f18e, 0x1f18e, 0x1f191, 0x1f19a,
+  0x1f1e6, 0x1f1ff, 0x1f200, 0x1f202, 0x1f210, 0x1f23b, 0x1f240, 0x1f248, 0x1f250, 0x1f251,
+  0x1f260, 0x1f265, 0x1f300, 0x1f320, 0x1f32d, 0x1f335, 0x1f337, 0x1f37c, 0x1f37e, 0x1f393,
+  0x1f3a0, 0x1f3ca, 0x1f3cf, 0x1f3d3, 0x1f3e0, 0x1f3f0, 0x1f3f4, 0x1f3f4, 0x1f3f8, 0x1f43e,
+  0x1f440, 0x1f440, 0x1f442, 0x1f4fc, 0x1f4ff, 0x1f53d, 0x1f54b, 0x1f54e, 0x1f550, 0x1f567,
+  0x1f57a, 0x1f57a, 0x1f595, 0x1f596, 0x1f5a4, 0x1f5a4, 0x1f5fb, 0x1f64f, 0x1f680, 0x1f6c5,
+  0x1f6cc, 0x1f6cc, 0x1f6d0, 0x1f6d2, 0x1f6d5, 0x1f6d7, 0x1f6dc, 0x1f6df, 0x1f6eb, 0x1f6ec,
+  0x1f6f4, 0x1f6fc, 0x1f7e0, 0x1f7eb, 0x1f7f0, 0x1f7f0, 0x1f90c, 0x1f93a, 0x1f93c, 0x1f945,
+  0x1f947, 0x1f9ff, 0x1fa70, 0x1fa7c, 0x1fa80, 0x1fa88, 0x1fa90, 0x1fabd, 0x1fabf, 0x1fac5,
+  0x1face, 0x1fadb, 0x1fae0, 0x1fae8, 0x1faf0, 0x1faf8, 0x20000, 0x2fffd, 0x30000, 0x3fffd,
+]
+
+function isWide(codePoint: number): boolean {
+  let low = 0
+  let high = wideRanges.length / 2 - 1
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (codePoint < wideRanges[mid * 2]) high = mid - 1
+    else if (codePoint > wideRanges[mid * 2 + 1]) low = mid + 1
+    else return true
+  }
+  return false
+}
+
+const zeroWidthPattern = /^[\p{Mn}\p{Me}\p{Cf}\p{Cc}]+$/u
+const emojiPattern = /^\p{Extended_Pictographic}/u
+
+let segmenter: Intl.Segmenter | undefined
+
+function graphemeWidth(grapheme: string): number {
+  const first = grapheme.codePointAt(0)
+  if (first < 0x7f) return first < 0x20 ? 0 : 1
+  if (zeroWidthPattern.test(grapheme)) return 0
+  if (isWide(first)) return 2
+  // Emoji that are narrow by default are wide when followed by the emoji
+  // variation selector
+  return grapheme.includes('\ufe0f') && emojiPattern.test(grapheme) ? 2 : 1
+}
+
+function displayWidth(text: string): number {
+  // Text that is all printable ASCII is the most common, and one column per
+  // character
+  if (/^[\x20-\x7e]*$/.test(text)) return text.length
+  segmenter ??= new Intl.Segmenter()
+  let width = 0
+  for (const { segment } of segmenter.segment(text)) {
+    width += graphemeWidth(segment)
+  }
+  return width
+}
+
+function codePointWidth(text: string): number {
+  let width = text.length
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i)
+    if (c >= 0xd800 && c <= 0xdbff) {
+      const next = text.charCodeAt(i + 1)
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        width--
+        i++
+      }
+    }
+  }
+  return width
+}
+
+function utf16Width(text: string): number {
+  return text.length
+}
+
+/**
+ * Gets the function that measures the width of text for a
+ * {@link WidthMode}.
+ */
+export function getWidthFunction(mode: WidthMode): (text: string) => number {
+  switch (mode) {
+    case 'utf16': return utf16Width
+    case 'codepoints': return codePointWidth
+    case 'display': return displayWidth
+  }
+  throw new Error(`'widthMode' must be 'utf16', 'codepoints', or 'display'.`)
+}
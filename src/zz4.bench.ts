@@ -0,0 +1,81 @@
+import { bench, describe } from 'vitest'
+
+import stringify0 from './index.ts'
+// @ts-ignore
+import built from '/tmp/fjnew/index.js'
+const stringify = (process.env.BUILT ? built : stringify0) as typeof stringify0
+
+
+// Every value is laid out once, so these should grow linearly with the size
+// of the input. The target is to stay within 3x of JSON.stringify with
+// indentation, which the stringify benchmarks check once they have run.
+describe('large structures vs JSON.stringify', () => {
+  const maxRatio = 3
+  const iterations = 10
+
+  const records = Array.from({ length: 5000 }, (_, i) => ({
+    id: i,
+    name: 'item ' + i,
+    price: (i * 7919 % 10000) / 100,
+    tags: [ 'a', 'b' ].slice(0, i % 3),
+    dims: { w: i % 7, h: i % 11 }
+  }))
+
+  function tree(depth: number): object {
+    if (depth === 0) return { value: depth * 31 % 100, label: 'leaf' }
+    return { name: 'node' + depth, children: Array.from({ length: 4 }, () => tree(depth - 1)), meta: { depth, ok: true } }
+  }
+  const deepTree = tree(7)
+
+  const matrix = Array.from({ length: 200 }, (_, i) => Array.from({ length: 30 }, (_, j) => (i * j % 997) / 10))
+
+  const replace = (key: string, value: any) => typeof value === 'number' ? value * 2 : value
+
+  const median = (samples: number[]) => samples.toSorted((a, b) => a - b)[samples.length >> 1]
+
+  /**
+   * Benchmarks a function and keeps the time of each call after the warmup.
+   * `check` is called once it has run the minimum number of times.
+   */
+  function timedBench(name: string, fn: () => void, check?: () => void): number[] {
+    const samples: number[] = []
+    bench(name, () => {
+      const start = performance.now()
+      fn()
+      samples.push(performance.now() - start)
+      if (samples.length === iterations) check?.()
+    }, {
+      iterations,
+      setup: (_, mode) => {
+        if (mode === 'run') samples.length = 0
+      }
+    })
+    return samples
+  }
+
+  /**
+   * Benchmarks JSON.stringify and stringify on the same value, and fails the
+   * stringify benchmarks if they take more than {@link maxRatio} times as
+   * long as JSON.stringify.
+   */
+  function benchAgainstJSON(name: string, json: () => void, calls: Record<string, () => void>) {
+    const jsonSamples = timedBench(`${name}: JSON.stringify`, json)
+    for (const [ label, call ] of Object.entries(calls)) {
+      const samples = timedBench(`${name}: ${label}`, call, () => {
+        const ratio = median(samples) / median(jsonSamples)
+        console.log(`RATIO ${name}: ${label} ${median(samples).toFixed(2)} / ${median(jsonSamples).toFixed(2)} = ${ratio.toFixed(2)}`)
+      })
+    }
+  }
+
+  for (const [ name, value ] of [ [ 'records', records ], [ 'deep tree', deepTree ], [ 'number matrix', matrix ] ] as const) {
+    benchAgainstJSON(name, () => JSON.stringify(value, null, 2), {
+      'stringify': () => stringify(value),
+      'stringify without tables': () => stringify(value, { tables: false })
+    })
+  }
+
+  benchAgainstJSON('records with replace', () => JSON.stringify(records, replace, 2), {
+    'stringify': () => stringify(records, { replace })
+  })
+})
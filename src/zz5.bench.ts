@@ -0,0 +1,16 @@
+import { bench } from 'vitest'
+import stringify0 from './index.ts'
+// @ts-ignore
+import built from '/tmp/fjnew/index.js'
+const stringify = (process.env.BUILT ? built : stringify0) as typeof stringify0
+const records = Array.from({ length: 5000 }, (_, i) => ({ id: i, name: 'item ' + i, price: (i * 7919 % 10000) / 100, tags: [ 'a', 'b' ].slice(0, i % 3), dims: { w: i % 7, h: i % 11 } }))
+const opts = JSON.parse(process.env.OPTS ?? '{}')
+const f: number[] = [], j: number[] = []
+for (let i = 0; i < 30; i++) { stringify(records, opts); JSON.stringify(records, null, 2) }
+for (let i = 0; i < 60; i++) {
+  let t = performance.now(); stringify(records, opts); f.push(performance.now() - t)
+  t = performance.now(); JSON.stringify(records, null, 2); j.push(performance.now() - t)
+}
+const med = (x: number[]) => x.toSorted((a, b) => a - b)[x.length >> 1]
+console.log('RESULT', Math.min(...f).toFixed(2), med(f).toFixed(2), Math.min(...j).toFixed(2), med(j).toFixed(2), (med(f) / med(j)).toFixed(2))
+bench('x', () => {})